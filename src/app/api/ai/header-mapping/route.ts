@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { AI_MODEL, getOpenAIClient } from '../../../../lib/ai/openai';
+
+const requestSchema = z.object({
+  entity: z.enum(['clients', 'workers', 'tasks']),
+  headers: z.array(z.string()),
+  fields: z.array(z.string()),
+  samples: z.array(z.unknown()).max(20),
+});
+
+const mappingSchema = z.record(z.string().nullable());
+
+export async function POST(request: Request) {
+  const client = getOpenAIClient();
+  if (!client) {
+    return NextResponse.json({ error: 'AI backend is not configured' }, { status: 501 });
+  }
+
+  const parsed = requestSchema.safeParse(await request.json());
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid request' }, { status: 400 });
+  }
+  const { entity, headers, fields, samples } = parsed.data;
+
+  try {
+    const completion = await client.chat.completions.create({
+      model: AI_MODEL,
+      response_format: { type: 'json_object' },
+      messages: [
+        {
+          role: 'system',
+          content: 'You map spreadsheet column headers to a canonical schema. Reply with a JSON object whose keys are the raw headers and whose values are one of the canonical fields, or null when none fits. Never use a canonical field twice.',
+        },
+        {
+          role: 'user',
+          content: JSON.stringify({ entity, rawHeaders: headers, canonicalFields: fields, sampleRows: samples }),
+        },
+      ],
+    });
+
+    const mapping = mappingSchema.safeParse(JSON.parse(completion.choices[0]?.message?.content || '{}'));
+    if (!mapping.success) {
+      return NextResponse.json({ error: 'AI returned an invalid mapping' }, { status: 502 });
+    }
+
+    // Drop anything outside the requested headers and fields
+    const cleaned = Object.fromEntries(
+      headers.map(header => {
+        const field = mapping.data[header];
+        return [header, field && fields.includes(field) ? field : null];
+      })
+    );
+    return NextResponse.json({ mapping: cleaned });
+  } catch (error) {
+    console.error('Header mapping error:', error);
+    return NextResponse.json({ error: 'AI request failed' }, { status: 502 });
+  }
+}
@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { AI_MODEL, getOpenAIClient } from '../../../../lib/ai/openai';
+
+const requestSchema = z.object({
+  text: z.string().min(1).max(2000),
+  entity: z.enum(['clients', 'workers', 'tasks']),
+  fields: z.array(z.string()),
+  context: z.object({
+    taskIds: z.array(z.string()),
+    clientGroups: z.array(z.string()),
+    workerGroups: z.array(z.string()),
+    phases: z.array(z.number()),
+    ruleIds: z.array(z.string()),
+  }),
+});
+
+const SYSTEM_PROMPT = `You turn a plain-English business rule into structured rules for a resource allocation tool.
+Reply with a JSON object: {"confidence": number 0-1, "question": string or null, "rules": [...]}.
+Each rule is one of:
+- A field rule on the given entity: {"type": "field", "name": string, "description": string, "action": "flag" | "highlight" | "reject" | "auto_correct" | "transform", "condition": group, "effect"?: {"field": string, "operation": "set" | "trim" | "uppercase" | "lowercase" | "prefix" | "suffix", "value": string}}.
+  A group is {"type": "group", "combinator": "and" | "or", "negate": boolean, "children": [group or condition]}.
+  A condition is {"type": "condition", "field": one of the given fields, "operator": "equals" | "not_equals" | "contains" | "not_contains" | "starts_with" | "ends_with" | "greater_than" | "less_than" | "is_empty" | "is_not_empty", "value": string}.
+  The condition selects the rows the action applies to. effect is required for auto_correct and transform.
+- An allocation rule: {"type": "allocation", "name": string, "kind": ...} with, by kind,
+  "coRun": {"tasks": [task IDs]}; "slotRestriction": {"groupType": "client" | "worker", "group": string, "minCommonSlots": integer};
+  "loadLimit": {"workerGroup": string, "maxSlotsPerPhase": integer}; "phaseWindow": {"taskId": string, "allowedPhases": [integers]};
+  "patternMatch": {"regex": string, "template": string, "params": object}; "precedenceOverride": {"ruleIds": [rule IDs]}.
+Only use the fields, task IDs, groups, phases and rule IDs you are given. If the text is ambiguous or names something that does not exist,
+set a low confidence and ask one short clarifying question instead of guessing.`;
+
+export async function POST(request: Request) {
+  const client = getOpenAIClient();
+  if (!client) {
+    return NextResponse.json({ error: 'AI backend is not configured' }, { status: 501 });
+  }
+
+  const parsed = requestSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid request' }, { status: 400 });
+  }
+
+  try {
+    const completion = await client.chat.completions.create({
+      model: AI_MODEL,
+      response_format: { type: 'json_object' },
+      messages: [
+        { role: 'system', content: SYSTEM_PROMPT },
+        { role: 'user', content: JSON.stringify(parsed.data) },
+      ],
+    });
+
+    // Checked against the rule schemas on the client, which also knows the current data
+    return NextResponse.json({ output: JSON.parse(completion.choices[0]?.message?.content || '{}') });
+  } catch (error) {
+    console.error('Rule parsing error:', error);
+    return NextResponse.json({ error: 'AI request failed' }, { status: 502 });
+  }
+}
@@ -1,5 +1,5 @@
 "use client";
-import React, { useState } from "react";
+import React, { useEffect, useMemo, useRef, useState } from "react";
 import { 
   Box, 
   Typography, 
@@ -18,6 +18,42 @@ import RuleBuilder from "../components/RuleBuilder";
 import PriorityPanel from "../components/PriorityPanel";
 import AIHelper from "../components/AIHelper";
 import NaturalLanguageDataModifier from "../components/NaturalLanguageDataModifier";
+import ImportMergeDialog from "../components/ImportMergeDialog";
+import RulesFileControls from "../components/RulesFileControls";
+import { SheetAssignments } from "../lib/parsers";
+import { exportBundle, exportEntityCsv } from "../lib/exporters";
+import {
+  applyFixes,
+  applyProfile,
+  countBySeverity,
+  DEFAULT_PROFILE_ID,
+  FixLogEntry,
+  getEntitySchema,
+  getValidationProfile,
+  IncrementalValidation,
+  analyzeCapacity,
+  isExportBlocked,
+  loadActiveProfileId,
+  RowReference,
+  saveActiveProfileId,
+  SuggestedFix,
+  undoFixes,
+  ValidationCache,
+  ValidationError,
+  validateReferences,
+  validateRowsIncremental
+} from "../lib/validators";
+import {
+  AllocationRule,
+  DEFAULT_PRIORITY_SETTINGS,
+  loadSavedTemplates,
+  PrioritySettings,
+  Rule,
+  RulesFile,
+  RuleTemplate,
+  saveSavedTemplates
+} from "../lib/rules";
+import { EntityType, ENTITY_TYPES } from "../lib/utils";
 
 interface TabPanelProps {
   children?: React.ReactNode;
@@ -46,7 +82,72 @@ export default function Home() {
   const [workers, setWorkers] = useState<unknown[] | null>(null);
   const [tasks, setTasks] = useState<unknown[] | null>(null);
   const [tabValue, setTabValue] = useState(0);
-  const [activeDataset, setActiveDataset] = useState<string>('clients');
+  const [activeDataset, setActiveDataset] = useState<EntityType>('clients');
+  const [focusedRow, setFocusedRow] = useState<RowReference | null>(null);
+  const [pendingImport, setPendingImport] = useState<{ assignments: SheetAssignments; fileName: string } | null>(null);
+  const [profileId, setProfileId] = useState(DEFAULT_PROFILE_ID);
+  const [fixLog, setFixLog] = useState<FixLogEntry[]>([]);
+  const [rules, setRules] = useState<Rule[]>([]);
+  const [allocationRules, setAllocationRules] = useState<AllocationRule[]>([]);
+  const [priorities, setPriorities] = useState<PrioritySettings>(DEFAULT_PRIORITY_SETTINGS);
+  const [ruleTemplates, setRuleTemplates] = useState<RuleTemplate[]>([]);
+  const validationCaches = useRef<Partial<Record<EntityType, ValidationCache>>>({});
+
+  // The profile and rule library are restored after mount so the server render and hydration agree
+  useEffect(() => {
+    setProfileId(loadActiveProfileId());
+    setRuleTemplates(loadSavedTemplates());
+  }, []);
+
+  const changeProfile = (id: string) => {
+    setProfileId(id);
+    saveActiveProfileId(id);
+  };
+
+  const changeRuleTemplates = (templates: RuleTemplate[]) => {
+    setRuleTemplates(templates);
+    saveSavedTemplates(templates);
+  };
+
+  const profile = getValidationProfile(profileId);
+
+  const datasets = useMemo(() => ({ clients, workers, tasks }), [clients, workers, tasks]);
+
+  // Re-validate on every change to any dataset; rows that did not change come from the cache
+  const liveValidation = useMemo(() => {
+    const datasets = { clients, workers, tasks };
+    const result = {} as Record<EntityType, IncrementalValidation>;
+    ENTITY_TYPES.forEach((entity) => {
+      result[entity] = validateRowsIncremental(entity, datasets[entity] || [], validationCaches.current[entity]);
+    });
+    return result;
+  }, [clients, workers, tasks]);
+
+  // The memo only reads the caches; they are kept once the render that built them commits
+  useEffect(() => {
+    ENTITY_TYPES.forEach((entity) => {
+      validationCaches.current[entity] = liveValidation[entity].cache;
+    });
+  }, [liveValidation]);
+
+  const profiledErrors = useMemo(() => {
+    const result = {} as Record<EntityType, ValidationError[]>;
+    ENTITY_TYPES.forEach((entity) => {
+      result[entity] = applyProfile(liveValidation[entity].errors, profile);
+    });
+    return result;
+  }, [liveValidation, profile]);
+
+  // Reference and capacity checks span datasets; the profile can make them block export too
+  const capacity = useMemo(() => analyzeCapacity(datasets), [datasets]);
+  const crossDatasetIssues = useMemo(() => {
+    return applyProfile([...validateReferences(datasets), ...capacity.issues], profile);
+  }, [datasets, capacity, profile]);
+
+  const allErrors = ENTITY_TYPES.flatMap(entity => profiledErrors[entity]);
+  const bundleBlocked = isExportBlocked(profile, [...allErrors, ...crossDatasetIssues]);
+  const activeIssues = [...profiledErrors[activeDataset], ...crossDatasetIssues.filter(issue => issue.entity === activeDataset)];
+  const activeExportBlocked = isExportBlocked(profile, activeIssues);
 
   const handleTabChange = (event: React.SyntheticEvent, newValue: number) => {
     setTabValue(newValue);
@@ -84,6 +185,59 @@ export default function Home() {
     }
   };
 
+  const applyImport = (assignments: SheetAssignments) => {
+    if (assignments.clients) setClients(assignments.clients);
+    if (assignments.workers) setWorkers(assignments.workers);
+    if (assignments.tasks) setTasks(assignments.tasks);
+  };
+
+  // An upload replaces the rows earlier fixes were made on, so their undo entries go with them
+  const uploadDatasets = (assignments: SheetAssignments) => {
+    applyImport(assignments);
+    setFixLog(log => log.filter(entry => !assignments[entry.entity]));
+  };
+
+  // Re-uploading over loaded data asks how to merge before anything is replaced
+  const handleImport = (assignments: SheetAssignments, fileName: string) => {
+    const existing = { clients, workers, tasks };
+    const overlaps = ENTITY_TYPES.some(entity => assignments[entity] && existing[entity]?.length);
+    if (overlaps) {
+      setPendingImport({ assignments, fileName });
+    } else {
+      uploadDatasets(assignments);
+    }
+  };
+
+  const acceptFixes = (fixes: SuggestedFix[]) => {
+    if (fixes.length === 0) return;
+    handleDataChange(applyFixes(getActiveData() || [], fixes));
+    setFixLog(log => [{ id: Date.now().toString(), appliedAt: new Date().toISOString(), entity: activeDataset, fixes }, ...log]);
+  };
+
+  const undoFixBatch = (entry: FixLogEntry) => {
+    const { rows, skipped } = undoFixes({ clients, workers, tasks }[entry.entity] || [], entry, getEntitySchema(entry.entity).primaryKey);
+    applyImport({ [entry.entity]: rows });
+    setFixLog(log => log.filter(logged => logged.id !== entry.id));
+    return skipped;
+  };
+
+  const importRulesFile = (file: RulesFile) => {
+    setRules(file.rules);
+    setAllocationRules(file.allocationRules);
+    setPriorities({
+      method: file.priorities.method,
+      importance: file.priorities.importance,
+      judgments: file.priorities.judgments
+    });
+  };
+
+  // Follow a link from a validation report to the row in the grid
+  const navigateToRow = (reference: RowReference) => {
+    setActiveDataset(reference.entity);
+    setFocusedRow(reference);
+    setTabValue(0);
+  };
+
   const totalRecords = (clients?.length || 0) + (workers?.length || 0) + (tasks?.length || 0);
 
   return (
@@ -102,11 +256,25 @@ export default function Home() {
             Data Upload
           </Typography>
           <Box sx={{ display: 'flex', gap: 2, mb: 2 }}>
-      <FileUploader label="Clients" onData={setClients} />
-      <FileUploader label="Workers" onData={setWorkers} />
-      <FileUploader label="Tasks" onData={setTasks} />
+      <FileUploader label="Clients" entity="clients" onData={(data, fileName) => handleImport({ clients: data }, fileName)} onSheets={handleImport} />
+      <FileUploader label="Workers" entity="workers" onData={(data, fileName) => handleImport({ workers: data }, fileName)} onSheets={handleImport} />
+      <FileUploader label="Tasks" entity="tasks" onData={(data, fileName) => handleImport({ tasks: data }, fileName)} onSheets={handleImport} />
           </Box>
           
+          {pendingImport && (
+            <ImportMergeDialog
+              open
+              fileName={pendingImport.fileName}
+              incoming={pendingImport.assignments}
+              existing={{ clients, workers, tasks }}
+              onConfirm={(merged) => {
+                uploadDatasets(merged);
+                setPendingImport(null);
+              }}
+              onCancel={() => setPendingImport(null)}
+            />
+          )}
+
           {totalRecords > 0 && (
             <Box sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
               <Chip label={`${clients?.length || 0} Clients`} color="primary" />
@@ -147,7 +315,38 @@ export default function Home() {
               >
                 Tasks ({tasks?.length || 0})
               </Button>
+              <Button
+                variant="outlined"
+                onClick={() => exportEntityCsv(activeDataset, getActiveData() || [])}
+                disabled={!getActiveData()?.length || activeExportBlocked}
+                sx={{ ml: 'auto' }}
+              >
+                Export {getActiveTitle()} CSV
+              </Button>
+              <Button
+                variant="outlined"
+                onClick={() => exportBundle({ clients, workers, tasks }, {
+                  profile,
+                  issues: countBySeverity([...allErrors, ...crossDatasetIssues]),
+                  crossDatasetIssues: crossDatasetIssues.length
+                })}
+                disabled={bundleBlocked}
+              >
+                Export Bundle
+              </Button>
+              <RulesFileControls
+                rules={rules}
+                allocationRules={allocationRules}
+                priorities={priorities}
+                datasets={datasets}
+                onImport={importRulesFile}
+              />
             </Box>
+            {(activeExportBlocked || bundleBlocked) && (
+              <Typography variant="body2" color="error" sx={{ mt: 1 }}>
+                Export is blocked by the &quot;{profile.name}&quot; profile until validation errors are fixed.
+              </Typography>
+            )}
           </Paper>
         )}
 
@@ -157,7 +356,7 @@ export default function Home() {
             <Box sx={{ borderBottom: 1, borderColor: 'divider' }}>
               <Tabs value={tabValue} onChange={handleTabChange} aria-label="data processing tabs">
                 <Tab label="Data Grid" />
-                <Tab label="Validation" />
+                <Tab label={`Validation (${countBySeverity(activeIssues).error})`} />
                 <Tab label="Search" />
                 <Tab label="Rules" />
                 <Tab label="Priorities" />
@@ -170,6 +369,9 @@ export default function Home() {
               <DataGridComponent
                 data={getActiveData() || []}
                 title={getActiveTitle()}
+                errors={profiledErrors[activeDataset]}
+                focusedCell={focusedRow?.entity === activeDataset ? focusedRow : null}
+                onDataChange={handleDataChange}
               />
             </TabPanel>
 
@@ -177,6 +379,18 @@ export default function Home() {
               <ValidationPanel
                 data={getActiveData() || []}
                 title={getActiveTitle()}
+                entity={activeDataset}
+                errors={profiledErrors[activeDataset]}
+                profile={profile}
+                onProfileChange={changeProfile}
+                checkedRows={liveValidation[activeDataset].checkedRows}
+                crossDatasetIssues={crossDatasetIssues}
+                capacity={capacity}
+                onNavigate={navigateToRow}
+                onDataChange={handleDataChange}
+                fixLog={fixLog}
+                onApplyFixes={acceptFixes}
+                onUndoFixes={undoFixBatch}
               />
             </TabPanel>
 
@@ -191,13 +405,23 @@ export default function Home() {
               <RuleBuilder
                 data={getActiveData() || []}
                 title={getActiveTitle()}
+                entity={activeDataset}
+                rules={rules}
+                onRulesChange={setRules}
+                onDataChange={handleDataChange}
+                allocationRules={allocationRules}
+                onAllocationRulesChange={setAllocationRules}
+                datasets={datasets}
+                ruleTemplates={ruleTemplates}
+                onRuleTemplatesChange={changeRuleTemplates}
               />
             </TabPanel>
 
             <TabPanel value={tabValue} index={4}>
               <PriorityPanel
-                data={getActiveData() || []}
-                title={getActiveTitle()}
+                datasets={datasets}
+                priorities={priorities}
+                onPrioritiesChange={setPriorities}
               />
             </TabPanel>
 
@@ -225,7 +449,7 @@ export default function Home() {
               No Data Loaded
             </Typography>
             <Typography variant="body1" color="text.secondary">
-              Upload your CSV or XLSX files above to get started with data processing, validation, and AI-powered insights.
+              Upload your CSV, XLSX or JSON files (or paste a range) above to get started with data processing, validation, and AI-powered insights.
             </Typography>
           </Paper>
         )}
@@ -13,6 +13,7 @@ import {
   AccordionDetails
 } from '@mui/material';
 import CircularProgress from '@mui/material/CircularProgress';
+import { getFields } from '../lib/utils';
 
 interface AIRecommendation {
   id: string;
@@ -52,8 +53,7 @@ const AIHelper: React.FC<AIHelperProps> = ({
       const newRecommendations: AIRecommendation[] = [];
       
       if (data.length > 0) {
-        const sampleRow = data[0] as Record<string, unknown>;
-        const fields = Object.keys(sampleRow);
+        const fields = getFields(data);
 
         // Analyze each field for potential issues
         fields.forEach((field, index) => {
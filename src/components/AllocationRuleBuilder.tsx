@@ -0,0 +1,317 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Button,
+  Chip,
+  Divider,
+  FormControl,
+  InputLabel,
+  List,
+  ListItem,
+  MenuItem,
+  Select,
+  TextField,
+  Typography,
+  Alert
+} from '@mui/material';
+import { coerceValue } from '../lib/parsers';
+import {
+  ALLOCATION_RULE_KINDS,
+  AllocationContext,
+  AllocationRule,
+  AllocationRuleKind,
+  createAllocationRule,
+  describeAllocationRule,
+  validateAllocationRule
+} from '../lib/rules';
+
+interface AllocationRuleBuilderProps {
+  allocationRules: AllocationRule[];
+  context: AllocationContext;
+  onAllocationRulesChange?: (rules: AllocationRule[]) => void;
+}
+
+const AllocationRuleBuilder: React.FC<AllocationRuleBuilderProps> = ({
+  allocationRules,
+  context,
+  onAllocationRulesChange
+}) => {
+  const [draft, setDraft] = useState<AllocationRule>(() => createAllocationRule('coRun'));
+  // Co-run task IDs or phase-window phases, as typed
+  const [listText, setListText] = useState('');
+  const [paramsText, setParamsText] = useState('{}');
+
+  // Changes are typed against the draft's own kind, so a field from another kind does not compile
+  const update = <R extends AllocationRule>(rule: R) => (changes: Partial<R>) => setDraft({ ...rule, ...changes });
+
+  const changeKind = (kind: AllocationRuleKind) => {
+    setDraft({ ...createAllocationRule(kind), name: draft.name });
+    setListText('');
+    setParamsText('{}');
+  };
+
+  // Fold the text inputs into the draft; parse problems are reported next to the rule's own validation
+  const buildRule = (): { rule: AllocationRule; parseErrors: string[] } => {
+    if (draft.kind === 'coRun') {
+      const tasks = coerceValue(listText, 'list');
+      return { rule: { ...draft, tasks: tasks.ok ? (tasks.value as string[]) : [] }, parseErrors: [] };
+    }
+    if (draft.kind === 'phaseWindow') {
+      const phases = listText.trim() ? coerceValue(listText, 'phaseList') : { ok: true as const, value: [] };
+      return phases.ok
+        ? { rule: { ...draft, allowedPhases: phases.value as number[] }, parseErrors: [] }
+        : { rule: draft, parseErrors: [`Phases: ${phases.message}`] };
+    }
+    if (draft.kind === 'patternMatch') {
+      try {
+        const params = JSON.parse(paramsText || '{}');
+        if (params === null || typeof params !== 'object' || Array.isArray(params)) {
+          return { rule: draft, parseErrors: ['Parameters must be a JSON object'] };
+        }
+        return { rule: { ...draft, params }, parseErrors: [] };
+      } catch {
+        return { rule: draft, parseErrors: ['Parameters are not valid JSON'] };
+      }
+    }
+    return { rule: draft, parseErrors: [] };
+  };
+
+  const { rule: built, parseErrors } = buildRule();
+  const draftErrors = [...parseErrors, ...validateAllocationRule(built, context)];
+
+  const addRule = () => {
+    if (draftErrors.length > 0) return;
+    onAllocationRulesChange?.([...allocationRules, built]);
+    setDraft(createAllocationRule(draft.kind));
+    setListText('');
+    setParamsText('{}');
+  };
+
+  const deleteRule = (id: string) => {
+    onAllocationRulesChange?.(allocationRules.filter(rule => rule.id !== id));
+  };
+
+  const toggleRule = (id: string) => {
+    onAllocationRulesChange?.(allocationRules.map(rule =>
+      rule.id === id ? { ...rule, isActive: !rule.isActive } : rule
+    ));
+  };
+
+  const renderSelect = (label: string, value: string, options: string[], onChange: (value: string) => void) => (
+    <FormControl fullWidth size="small">
+      <InputLabel>{label}</InputLabel>
+      <Select value={value} onChange={(e) => onChange(e.target.value)} label={label}>
+        {options.map((option) => (
+          <MenuItem key={option} value={option}>
+            {option}
+          </MenuItem>
+        ))}
+      </Select>
+    </FormControl>
+  );
+
+  const renderKindFields = () => {
+    switch (draft.kind) {
+      case 'coRun':
+        return (
+          <TextField
+            fullWidth
+            label="Task IDs"
+            placeholder="T1, T2, T5"
+            value={listText}
+            onChange={(e) => setListText(e.target.value)}
+            helperText={context.taskIds.length > 0 ? `Known tasks: ${context.taskIds.slice(0, 12).join(', ')}${context.taskIds.length > 12 ? ', …' : ''}` : 'Load tasks to check IDs'}
+            size="small"
+          />
+        );
+      case 'slotRestriction':
+        return (
+          <>
+            {renderSelect('Group Type', draft.groupType, ['client', 'worker'], (groupType) => update(draft)({ groupType: groupType === 'worker' ? 'worker' : 'client', group: '' }))}
+            {renderSelect('Group', draft.group, draft.groupType === 'client' ? context.clientGroups : context.workerGroups, (group) => update(draft)({ group }))}
+            <TextField
+              fullWidth
+              label="Min Common Slots"
+              type="number"
+              value={draft.minCommonSlots}
+              onChange={(e) => update(draft)({ minCommonSlots: Number(e.target.value) })}
+              size="small"
+            />
+          </>
+        );
+      case 'loadLimit':
+        return (
+          <>
+            {renderSelect('Worker Group', draft.workerGroup, context.workerGroups, (workerGroup) => update(draft)({ workerGroup }))}
+            <TextField
+              fullWidth
+              label="Max Slots Per Phase"
+              type="number"
+              value={draft.maxSlotsPerPhase}
+              onChange={(e) => update(draft)({ maxSlotsPerPhase: Number(e.target.value) })}
+              size="small"
+            />
+          </>
+        );
+      case 'phaseWindow':
+        return (
+          <>
+            {renderSelect('Task', draft.taskId, context.taskIds, (taskId) => update(draft)({ taskId }))}
+            <TextField
+              fullWidth
+              label="Allowed Phases"
+              placeholder="1-3 or 1,3,5"
+              value={listText}
+              onChange={(e) => setListText(e.target.value)}
+              helperText={context.phases.length > 0 ? `Known phases: ${context.phases.join(', ')}` : undefined}
+              size="small"
+            />
+          </>
+        );
+      case 'patternMatch':
+        return (
+          <>
+            <TextField
+              fullWidth
+              label="Regex"
+              value={draft.regex}
+              onChange={(e) => update(draft)({ regex: e.target.value })}
+              size="small"
+            />
+            <TextField
+              fullWidth
+              label="Rule Template"
+              value={draft.template}
+              onChange={(e) => update(draft)({ template: e.target.value })}
+              size="small"
+            />
+            <TextField
+              fullWidth
+              label="Parameters (JSON)"
+              value={paramsText}
+              onChange={(e) => setParamsText(e.target.value)}
+              size="small"
+            />
+          </>
+        );
+      default:
+        return (
+          <FormControl fullWidth size="small">
+            <InputLabel>Rules, Highest Precedence First</InputLabel>
+            <Select
+              multiple
+              value={draft.ruleIds}
+              onChange={(e) => update(draft)({ ruleIds: typeof e.target.value === 'string' ? e.target.value.split(',') : e.target.value })}
+              renderValue={(selected) => selected.join(' > ')}
+              label="Rules, Highest Precedence First"
+            >
+              {context.ruleIds.map((id) => (
+                <MenuItem key={id} value={id}>
+                  {id}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        );
+    }
+  };
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, mb: 3 }}>
+        <Box sx={{ display: 'flex', gap: 2 }}>
+          <FormControl fullWidth size="small">
+            <InputLabel>Rule Kind</InputLabel>
+            <Select
+              value={draft.kind}
+              onChange={(e) => changeKind(e.target.value as AllocationRuleKind)}
+              label="Rule Kind"
+            >
+              {ALLOCATION_RULE_KINDS.map((kind) => (
+                <MenuItem key={kind.value} value={kind.value}>
+                  {kind.label}: {kind.description}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <TextField
+            fullWidth
+            label="Rule Name"
+            value={draft.name}
+            onChange={(e) => update(draft)({ name: e.target.value })}
+            size="small"
+          />
+        </Box>
+
+        <Box sx={{ display: 'flex', gap: 2 }}>
+          {renderKindFields()}
+        </Box>
+
+        {draftErrors.length > 0 && (
+          <Typography variant="body2" color="text.secondary">
+            {draftErrors.join(' · ')}
+          </Typography>
+        )}
+
+        <Button
+          variant="contained"
+          onClick={addRule}
+          disabled={draftErrors.length > 0}
+          sx={{ alignSelf: 'flex-start' }}
+        >
+          Add Allocation Rule
+        </Button>
+      </Box>
+
+      {allocationRules.length > 0 ? (
+        <List dense>
+          {allocationRules.map((rule) => {
+            // Re-checked against the current data, which may have changed since the rule was added
+            const problems = validateAllocationRule(rule, context);
+            return (
+              <Box key={rule.id}>
+                <ListItem>
+                  <span style={{ width: '100%' }}>
+                    <span style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+                      <Typography component="span" variant="subtitle2">
+                        {rule.name}
+                      </Typography>
+                      <Chip label={ALLOCATION_RULE_KINDS.find(kind => kind.value === rule.kind)?.label} size="small" variant="outlined" />
+                      <Chip label={rule.isActive ? 'Active' : 'Inactive'} size="small" color={rule.isActive ? 'success' : 'default'} variant="outlined" />
+                      {problems.length > 0 && (
+                        <Chip label={`${problems.length} problem${problems.length === 1 ? '' : 's'}`} size="small" color="error" variant="outlined" />
+                      )}
+                    </span>
+                    <Typography component="span" variant="body2" sx={{ display: 'block', fontFamily: 'monospace', mt: 1 }}>
+                      {describeAllocationRule(rule)}
+                    </Typography>
+                    {problems.length > 0 && (
+                      <Typography component="span" variant="body2" color="error" sx={{ display: 'block' }}>
+                        {problems.join(' · ')}
+                      </Typography>
+                    )}
+                  </span>
+                  <Box sx={{ display: 'flex' }}>
+                    <Button size="small" onClick={() => toggleRule(rule.id)} variant="outlined" sx={{ mr: 1 }}>
+                      {rule.isActive ? 'Disable' : 'Enable'}
+                    </Button>
+                    <Button size="small" onClick={() => deleteRule(rule.id)} color="error" variant="outlined">
+                      Delete
+                    </Button>
+                  </Box>
+                </ListItem>
+                <Divider />
+              </Box>
+            );
+          })}
+        </List>
+      ) : (
+        <Alert severity="info">
+          No allocation rules yet.
+        </Alert>
+      )}
+    </Box>
+  );
+};
+
+export default AllocationRuleBuilder;
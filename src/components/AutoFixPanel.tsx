@@ -0,0 +1,137 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Box,
+  Button,
+  Chip,
+  Divider,
+  List,
+  ListItem,
+  Typography,
+  Alert
+} from '@mui/material';
+import { FIX_LABELS, FixKind, FixLogEntry, SuggestedFix } from '../lib/validators';
+import { ENTITY_LABELS } from '../lib/utils';
+
+interface AutoFixPanelProps {
+  fixes: SuggestedFix[];
+  fixLog: FixLogEntry[];
+  onApplyFixes?: (fixes: SuggestedFix[]) => void;
+  // Returns how many cells could not be restored because they were edited again
+  onUndoFixes?: (entry: FixLogEntry) => number;
+}
+
+const formatValue = (value: unknown) => {
+  if (value !== null && typeof value === 'object') return JSON.stringify(value);
+  return String(value ?? '');
+};
+
+const AutoFixPanel: React.FC<AutoFixPanelProps> = ({
+  fixes,
+  fixLog,
+  onApplyFixes,
+  onUndoFixes
+}) => {
+  const [undoMessage, setUndoMessage] = useState<string | null>(null);
+
+  const fixesByKind = useMemo(() => {
+    const grouped: Partial<Record<FixKind, SuggestedFix[]>> = {};
+    fixes.forEach(fix => {
+      grouped[fix.kind] = [...(grouped[fix.kind] || []), fix];
+    });
+    return grouped;
+  }, [fixes]);
+
+  const undo = (entry: FixLogEntry) => {
+    const skipped = onUndoFixes?.(entry) || 0;
+    setUndoMessage(skipped > 0
+      ? `${skipped} cell${skipped === 1 ? ' was' : 's were'} edited after the fix, or ${skipped === 1 ? 'its row is' : 'their rows are'} gone, and left as they are.`
+      : null);
+  };
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
+        <Typography variant="body2" color="text.secondary">
+          {fixes.length > 0 ? `${fixes.length} cells can be fixed automatically.` : 'No automatic fixes available.'}
+        </Typography>
+        <Button
+          variant="outlined"
+          onClick={() => onApplyFixes?.(fixes)}
+          disabled={!onApplyFixes || fixes.length === 0}
+        >
+          Apply All Fixes
+        </Button>
+      </Box>
+
+      {fixes.length > 0 && (
+        <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', mb: 1 }}>
+          {Object.entries(fixesByKind).map(([kind, kindFixes]) => (
+            <Chip
+              key={kind}
+              label={`${FIX_LABELS[kind as FixKind]} (${kindFixes.length})`}
+              size="small"
+              variant="outlined"
+              onClick={onApplyFixes ? () => onApplyFixes(kindFixes) : undefined}
+            />
+          ))}
+        </Box>
+      )}
+
+      {fixes.length > 0 && (
+        <List dense>
+          {fixes.slice(0, 20).map((fix) => (
+            <ListItem key={fix.id}>
+              <span style={{ width: '100%', display: 'flex', alignItems: 'center', gap: 8 }}>
+                <Typography component="span" variant="body2" sx={{ flex: 1 }}>
+                  Row {fix.rowIndex} · {fix.field}: &quot;{formatValue(fix.beforeRaw ?? fix.before)}&quot; → &quot;{formatValue(fix.after)}&quot;
+                </Typography>
+                <Chip label={FIX_LABELS[fix.kind]} size="small" variant="outlined" />
+                <Button size="small" onClick={() => onApplyFixes?.([fix])} disabled={!onApplyFixes}>
+                  Apply
+                </Button>
+              </span>
+            </ListItem>
+          ))}
+          {fixes.length > 20 && (
+            <Typography variant="body2" color="text.secondary">
+              ... and {fixes.length - 20} more fixes
+            </Typography>
+          )}
+        </List>
+      )}
+
+      {fixLog.length > 0 && (
+        <Box sx={{ mt: 2 }}>
+          <Typography variant="subtitle2" sx={{ mb: 1 }}>
+            Applied Fixes
+          </Typography>
+          {undoMessage && (
+            <Alert severity="info" sx={{ mb: 1 }}>
+              {undoMessage}
+            </Alert>
+          )}
+          <List dense>
+            {fixLog.map((entry) => (
+              <Box key={entry.id}>
+                <ListItem>
+                  <span style={{ width: '100%', display: 'flex', alignItems: 'center', gap: 8 }}>
+                    <Typography component="span" variant="body2" sx={{ flex: 1 }}>
+                      {new Date(entry.appliedAt).toLocaleTimeString()} · {ENTITY_LABELS[entry.entity]} · {entry.fixes.length} fix{entry.fixes.length === 1 ? '' : 'es'}
+                      {' '}({Array.from(new Set(entry.fixes.map(fix => FIX_LABELS[fix.kind]))).join(', ')})
+                    </Typography>
+                    <Button size="small" onClick={() => undo(entry)} disabled={!onUndoFixes}>
+                      Undo
+                    </Button>
+                  </span>
+                </ListItem>
+                <Divider />
+              </Box>
+            ))}
+          </List>
+        </Box>
+      )}
+    </Box>
+  );
+};
+
+export default AutoFixPanel;
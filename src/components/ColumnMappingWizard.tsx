@@ -0,0 +1,165 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Button,
+  Chip,
+  FormControl,
+  MenuItem,
+  Select,
+  Typography,
+  Alert,
+  Divider
+} from '@mui/material';
+import { ColumnMapping, HeaderMatch } from '../lib/parsers';
+import { suggestHeaderMapping } from '../lib/ai';
+import { getEntityFieldNames } from '../lib/validators';
+import { ENTITY_LABELS } from '../lib/utils';
+
+interface ColumnMappingWizardProps {
+  mappings: ColumnMapping[];
+  onConfirm: (mappings: ColumnMapping[]) => void;
+  onCancel: () => void;
+}
+
+const KEEP_AS_IS = '__keep__';
+
+const ColumnMappingWizard: React.FC<ColumnMappingWizardProps> = ({
+  mappings: initialMappings,
+  onConfirm,
+  onCancel
+}) => {
+  const [mappings, setMappings] = useState<ColumnMapping[]>(initialMappings);
+  const [isSuggesting, setIsSuggesting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const updateMatch = (mappingIndex: number, header: string, field: string | null) => {
+    setMappings(prev => prev.map((mapping, i) => i !== mappingIndex ? mapping : {
+      ...mapping,
+      matches: mapping.matches.map(match =>
+        match.header === header ? { ...match, field, score: 1, source: 'manual' } : match
+      ),
+    }));
+  };
+
+  // Send only the headers the fuzzy matcher left open to the AI backend
+  const suggestWithAI = async () => {
+    setIsSuggesting(true);
+    setError(null);
+    let unavailable = false;
+
+    const updated = await Promise.all(mappings.map(async (mapping) => {
+      const open = mapping.matches.filter(match => !match.field).map(match => match.header);
+      const usedFields = new Set(mapping.matches.map(match => match.field).filter(Boolean));
+      const fields = getEntityFieldNames(mapping.entity).filter(field => !usedFields.has(field));
+      if (open.length === 0 || fields.length === 0) return mapping;
+
+      const suggestion = await suggestHeaderMapping({
+        entity: mapping.entity,
+        headers: open,
+        fields,
+        samples: mapping.rows.slice(0, 5),
+      });
+      if (!suggestion) {
+        unavailable = true;
+        return mapping;
+      }
+      return {
+        ...mapping,
+        matches: mapping.matches.map((match): HeaderMatch =>
+          suggestion[match.header] ? { ...match, field: suggestion[match.header], score: 0.5, source: 'ai' } : match
+        ),
+      };
+    }));
+
+    setMappings(updated);
+    if (unavailable) {
+      setError('AI suggestions are unavailable. Map the remaining columns manually.');
+    }
+    setIsSuggesting(false);
+  };
+
+  const getSourceColor = (source: HeaderMatch['source']) => {
+    switch (source) {
+      case 'exact':
+      case 'saved': return 'success';
+      case 'fuzzy': return 'warning';
+      case 'ai': return 'info';
+      default: return 'default';
+    }
+  };
+
+  return (
+    <Box sx={{ mt: 1 }}>
+      <Typography variant="subtitle2" sx={{ mb: 1 }}>
+        Confirm column mapping
+      </Typography>
+
+      {mappings.map((mapping, mappingIndex) => (
+        <Box key={mapping.entity} sx={{ mb: 2 }}>
+          <Typography variant="body2" sx={{ mb: 1, fontWeight: 'bold' }}>
+            {ENTITY_LABELS[mapping.entity]}
+          </Typography>
+          {mapping.matches.map((match) => {
+            const usedElsewhere = new Set(
+              mapping.matches.filter(m => m.header !== match.header).map(m => m.field)
+            );
+            return (
+              <Box key={match.header} sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+                <Typography variant="body2" sx={{ flex: 1 }}>
+                  {match.header}
+                </Typography>
+                {match.field && (
+                  <Chip
+                    label={match.source === 'fuzzy' ? `${Math.round(match.score * 100)}%` : match.source}
+                    size="small"
+                    color={getSourceColor(match.source)}
+                    variant="outlined"
+                  />
+                )}
+                <FormControl size="small" sx={{ minWidth: 180 }}>
+                  <Select
+                    value={match.field || KEEP_AS_IS}
+                    onChange={(e) => updateMatch(mappingIndex, match.header, e.target.value === KEEP_AS_IS ? null : e.target.value)}
+                  >
+                    <MenuItem value={KEEP_AS_IS}>Keep as &quot;{match.header}&quot;</MenuItem>
+                    {getEntityFieldNames(mapping.entity).map((field) => (
+                      <MenuItem key={field} value={field} disabled={usedElsewhere.has(field)}>
+                        {field}
+                      </MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+              </Box>
+            );
+          })}
+          <Divider />
+        </Box>
+      ))}
+
+      {error && (
+        <Alert severity="warning" sx={{ mb: 1 }}>
+          {error}
+        </Alert>
+      )}
+
+      <Box sx={{ display: 'flex', gap: 1 }}>
+        <Button size="small" variant="contained" onClick={() => onConfirm(mappings)}>
+          Confirm Mapping
+        </Button>
+        <Button
+          size="small"
+          variant="outlined"
+          onClick={suggestWithAI}
+          disabled={isSuggesting || mappings.every(mapping => mapping.matches.every(match => match.field))}
+        >
+          {isSuggesting ? 'Asking AI...' : 'Suggest with AI'}
+        </Button>
+        <Button size="small" variant="outlined" onClick={onCancel}>
+          Cancel
+        </Button>
+      </Box>
+    </Box>
+  );
+};
+
+export default ColumnMappingWizard;
@@ -0,0 +1,154 @@
+import React from 'react';
+import {
+  Box,
+  Button,
+  Checkbox,
+  FormControl,
+  FormControlLabel,
+  IconButton,
+  MenuItem,
+  Select,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup
+} from '@mui/material';
+import {
+  Combinator,
+  ConditionGroup,
+  ConditionLeaf,
+  ConditionNode,
+  ConditionOperator,
+  createCondition,
+  createGroup,
+  isConditionComplete,
+  OPERATORS,
+  UNARY_OPERATORS
+} from '../lib/rules';
+
+interface ConditionGroupEditorProps {
+  group: ConditionGroup;
+  fields: string[];
+  onChange: (group: ConditionGroup) => void;
+  // Omitted for the root group, which cannot be removed
+  onRemove?: () => void;
+  // Format hint for a field's value, e.g. from the schema registry
+  getValueHint?: (field: string) => string | undefined;
+  // Saves this group, or a nested one, to the rule library
+  onSaveTemplate?: (group: ConditionGroup) => void;
+}
+
+const ConditionGroupEditor: React.FC<ConditionGroupEditorProps> = ({
+  group,
+  fields,
+  onChange,
+  onRemove,
+  getValueHint,
+  onSaveTemplate
+}) => {
+  const updateChild = (index: number, child: ConditionNode) => {
+    onChange({ ...group, children: group.children.map((existing, i) => i === index ? child : existing) });
+  };
+
+  const removeChild = (index: number) => {
+    onChange({ ...group, children: group.children.filter((_, i) => i !== index) });
+  };
+
+  const renderCondition = (condition: ConditionLeaf, index: number) => (
+    <Box key={condition.id} sx={{ display: 'flex', gap: 1, alignItems: 'flex-start' }}>
+      <FormControl size="small" sx={{ minWidth: 160 }}>
+        <Select
+          value={condition.field}
+          displayEmpty
+          onChange={(e) => updateChild(index, { ...condition, field: e.target.value })}
+        >
+          <MenuItem value="" disabled>Field</MenuItem>
+          {fields.map((field) => (
+            <MenuItem key={field} value={field}>
+              {field}
+            </MenuItem>
+          ))}
+        </Select>
+      </FormControl>
+      <FormControl size="small" sx={{ minWidth: 140 }}>
+        <Select
+          value={condition.operator}
+          onChange={(e) => updateChild(index, { ...condition, operator: e.target.value as ConditionOperator })}
+        >
+          {OPERATORS.map((op) => (
+            <MenuItem key={op.value} value={op.value}>
+              {op.label}
+            </MenuItem>
+          ))}
+        </Select>
+      </FormControl>
+      {!UNARY_OPERATORS.includes(condition.operator) && (
+        <TextField
+          size="small"
+          placeholder="Value"
+          value={condition.value}
+          onChange={(e) => updateChild(index, { ...condition, value: e.target.value })}
+          helperText={condition.field ? getValueHint?.(condition.field) : undefined}
+          sx={{ flex: 1 }}
+        />
+      )}
+      <IconButton size="small" onClick={() => removeChild(index)} aria-label="Remove condition">
+        ×
+      </IconButton>
+    </Box>
+  );
+
+  return (
+    <Box sx={{ border: 1, borderColor: 'divider', borderRadius: 1, p: 1.5, display: 'flex', flexDirection: 'column', gap: 1 }}>
+      <Box sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+        <ToggleButtonGroup
+          size="small"
+          exclusive
+          value={group.combinator}
+          onChange={(_, value: Combinator | null) => value && onChange({ ...group, combinator: value })}
+        >
+          <ToggleButton value="and">AND</ToggleButton>
+          <ToggleButton value="or">OR</ToggleButton>
+        </ToggleButtonGroup>
+        <FormControlLabel
+          control={<Checkbox size="small" checked={group.negate} onChange={(e) => onChange({ ...group, negate: e.target.checked })} />}
+          label="NOT"
+        />
+        <Box sx={{ ml: 'auto', display: 'flex', gap: 1 }}>
+          <Button size="small" onClick={() => onChange({ ...group, children: [...group.children, createCondition()] })}>
+            Add Condition
+          </Button>
+          <Button size="small" onClick={() => onChange({ ...group, children: [...group.children, createGroup()] })}>
+            Add Group
+          </Button>
+          {onSaveTemplate && (
+            <Button size="small" onClick={() => onSaveTemplate(group)} disabled={!isConditionComplete(group)}>
+              Save as Template
+            </Button>
+          )}
+          {onRemove && (
+            <Button size="small" color="error" onClick={onRemove}>
+              Remove Group
+            </Button>
+          )}
+        </Box>
+      </Box>
+
+      {group.children.map((child, index) => child.type === 'condition'
+        ? renderCondition(child, index)
+        : (
+          <ConditionGroupEditor
+            key={child.id}
+            group={child}
+            fields={fields}
+            onChange={(updated) => updateChild(index, updated)}
+            onRemove={() => removeChild(index)}
+            getValueHint={getValueHint}
+            onSaveTemplate={onSaveTemplate}
+          />
+        )
+      )}
+    </Box>
+  );
+};
+
+export default ConditionGroupEditor;
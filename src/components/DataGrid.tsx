@@ -1,29 +1,46 @@
-import React, { useMemo } from 'react';
-import { DataGrid, GridColDef } from '@mui/x-data-grid';
-import { Box, Typography, Chip } from '@mui/material';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { DataGrid, GridColDef, GridPaginationModel, GridRenderCellParams, useGridApiRef } from '@mui/x-data-grid';
+import { Box, Typography, Chip, FormControlLabel, Switch, Tooltip } from '@mui/material';
+import { displayValue } from '../lib/parsers';
+import { ValidationError } from '../lib/validators';
+import { getFields } from '../lib/utils';
 
 interface DataGridProps {
   data: unknown[];
   title: string;
+  // Live validation results; failing cells are outlined in their severity's colour with the message as a tooltip
+  errors?: ValidationError[];
+  // 1-based row (and optionally the cell) to page to and highlight, e.g. after following a validation link
+  focusedCell?: { rowIndex: number; field?: string } | null;
+  onDataChange?: (data: unknown[]) => void;
 }
 
-const DataGridComponent: React.FC<DataGridProps> = ({ 
-  data, 
-  title 
+const PAGE_SIZE = 10;
+
+const cellKey = (rowIndex: number, field: string) => `${rowIndex}:${field}`;
+
+const DataGridComponent: React.FC<DataGridProps> = ({
+  data,
+  title,
+  errors = [],
+  focusedCell,
+  onDataChange
 }) => {
-  // Generate columns dynamically based on data structure
-  const columns: GridColDef[] = useMemo(() => {
-    if (!data || data.length === 0) return [];
+  const apiRef = useGridApiRef();
+  const [paginationModel, setPaginationModel] = useState<GridPaginationModel>({ page: 0, pageSize: PAGE_SIZE });
+  const [errorsOnly, setErrorsOnly] = useState(false);
 
-    const sampleRow = data[0];
-    return Object.keys(sampleRow as Record<string, unknown>).map((key) => ({
-      field: key,
-      headerName: key.charAt(0).toUpperCase() + key.slice(1).replace(/([A-Z])/g, ' $1'),
-      flex: 1,
-      minWidth: 120,
-      editable: true,
-    }));
-  }, [data]);
+  // Issues per cell, and the rows that have any
+  const cellErrors = useMemo(() => {
+    const byCell = new Map<string, ValidationError[]>();
+    errors.filter(error => error.rowIndex > 0).forEach((error) => {
+      const key = cellKey(error.rowIndex, error.field);
+      byCell.set(key, [...(byCell.get(key) || []), error]);
+    });
+    return byCell;
+  }, [errors]);
+
+  const errorRows = useMemo(() => new Set(errors.map(error => error.rowIndex)), [errors]);
 
   // Add unique IDs to rows if they don't exist
   const rowsWithIds = useMemo(() => {
@@ -33,6 +50,74 @@ const DataGridComponent: React.FC<DataGridProps> = ({
     }));
   }, [data]);
 
+  const rowNumbers = useMemo(() => {
+    return new Map(rowsWithIds.map((row, index) => [row.id, index + 1]));
+  }, [rowsWithIds]);
+
+  const getCellClassName = (id: unknown, field: string) => {
+    const issues = cellErrors.get(cellKey(rowNumbers.get(id as string) || 0, field));
+    if (!issues) return '';
+    if (issues.some(issue => issue.severity === 'error')) return 'cell-error';
+    return issues.some(issue => issue.severity === 'warning') ? 'cell-warning' : 'cell-info';
+  };
+
+  const visibleRows = useMemo(() => {
+    return errorsOnly ? rowsWithIds.filter((_, index) => errorRows.has(index + 1)) : rowsWithIds;
+  }, [errorsOnly, rowsWithIds, errorRows]);
+
+  const focusedId = focusedCell ? rowsWithIds[focusedCell.rowIndex - 1]?.id : undefined;
+
+  // Read through a ref so the effect below runs only when a new cell is requested, not on every edit
+  const latest = useRef({ focusedId, visibleRows });
+  latest.current = { focusedId, visibleRows };
+
+  // Page to the focused row, then focus the cell once the page has rendered
+  useEffect(() => {
+    const { focusedId: rowId, visibleRows: rows } = latest.current;
+    if (!focusedCell || rowId === undefined) return;
+    const position = rows.findIndex(row => row.id === rowId);
+    if (position === -1) return;
+    setPaginationModel(model => ({ ...model, page: Math.floor(position / model.pageSize) }));
+    if (!focusedCell.field) return;
+    const frame = requestAnimationFrame(() => apiRef.current?.setCellFocus(rowId as string, focusedCell.field as string));
+    return () => cancelAnimationFrame(frame);
+  }, [focusedCell, apiRef]);
+
+  // Generate columns dynamically based on data structure
+  const columns: GridColDef[] = useMemo(() => {
+    return getFields(data).map((key) => ({
+      field: key,
+      headerName: key.charAt(0).toUpperCase() + key.slice(1).replace(/([A-Z])/g, ' $1'),
+      flex: 1,
+      minWidth: 120,
+      editable: true,
+      // Show coerced lists, ranges and JSON as the text they were imported as
+      valueGetter: (_value: unknown, row: Record<string, unknown>) => displayValue(row, key),
+      renderCell: (params: GridRenderCellParams) => {
+        const issues = cellErrors.get(cellKey(rowNumbers.get(params.id as string) || 0, key));
+        if (!issues) return params.formattedValue;
+        return (
+          <Tooltip title={issues.map(issue => `${issue.severity}: ${issue.message}`).join('; ')}>
+            <span>{params.formattedValue || ' '}</span>
+          </Tooltip>
+        );
+      },
+    }));
+  }, [data, cellErrors, rowNumbers]);
+
+  // Write cell edits back as a new row object so live validation re-checks just that row
+  const processRowUpdate = (updatedRow: Record<string, unknown>, originalRow: Record<string, unknown>) => {
+    const index = rowsWithIds.findIndex(row => row.id === originalRow.id);
+    if (index === -1 || !onDataChange) return updatedRow;
+    const source = data[index] as Record<string, unknown>;
+    const changed: Record<string, unknown> = { ...source };
+    getFields(data).forEach((key) => {
+      if (updatedRow[key] !== source[key]) changed[key] = updatedRow[key];
+    });
+    onDataChange(data.map((row, i) => i === index ? changed : row));
+    return updatedRow;
+  };
+
   if (!data || data.length === 0) {
     return (
       <Box sx={{ p: 2, textAlign: 'center' }}>
@@ -47,21 +132,28 @@ const DataGridComponent: React.FC<DataGridProps> = ({
     <Box sx={{ height: 400, width: '100%' }}>
       <Box sx={{ mb: 2, display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
         <Typography variant="h6">{title}</Typography>
-        <Chip 
-          label={`${rowsWithIds.length} rows`} 
-          size="small" 
-          color="primary" 
-          variant="outlined" 
-        />
+        <Box sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+          <FormControlLabel
+            control={<Switch size="small" checked={errorsOnly} onChange={(e) => setErrorsOnly(e.target.checked)} />}
+            label="Show only rows with errors"
+          />
+          <Chip
+            label={`${visibleRows.length} rows`}
+            size="small"
+            color="primary"
+            variant="outlined"
+          />
+        </Box>
       </Box>
       <DataGrid
-        rows={rowsWithIds}
+        apiRef={apiRef}
+        rows={visibleRows}
         columns={columns}
-        initialState={{
-          pagination: {
-            paginationModel: { page: 0, pageSize: 10 },
-          },
-        }}
+        paginationModel={paginationModel}
+        onPaginationModelChange={setPaginationModel}
+        getRowClassName={(params) => params.id === focusedId ? 'row-focused' : ''}
+        getCellClassName={(params) => getCellClassName(params.id, params.field)}
+        processRowUpdate={processRowUpdate}
         pageSizeOptions={[5, 10, 25]}
         checkboxSelection
         disableRowSelectionOnClick
@@ -69,6 +161,22 @@ const DataGridComponent: React.FC<DataGridProps> = ({
           '& .MuiDataGrid-cell:focus': {
             outline: 'none',
           },
+          '& .row-focused': {
+            backgroundColor: 'action.selected',
+          },
+          '& .cell-error, & .cell-warning, & .cell-info, & .cell-error:focus, & .cell-warning:focus, & .cell-info:focus': {
+            outline: '2px solid',
+            outlineOffset: '-2px',
+          },
+          '& .cell-error, & .cell-error:focus': {
+            outlineColor: 'error.main',
+          },
+          '& .cell-warning, & .cell-warning:focus': {
+            outlineColor: 'warning.main',
+          },
+          '& .cell-info, & .cell-info:focus': {
+            outlineColor: 'info.main',
+          },
         }}
       />
     </Box>
@@ -0,0 +1,171 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Box,
+  Button,
+  Chip,
+  Divider,
+  FormControl,
+  InputLabel,
+  List,
+  ListItem,
+  MenuItem,
+  Select,
+  Slider,
+  Typography,
+  Alert
+} from '@mui/material';
+import { displayValue } from '../lib/parsers';
+import {
+  DEFAULT_DUPLICATE_THRESHOLD,
+  DuplicateGroup,
+  DuplicateMode,
+  DuplicateResolution,
+  findDuplicates,
+  getDuplicateFields,
+  getEntitySchema,
+  resolveDuplicateGroup
+} from '../lib/validators';
+import { EntityType } from '../lib/utils';
+
+interface DuplicateReviewProps {
+  data: unknown[];
+  entity: EntityType;
+  onDataChange?: (data: unknown[]) => void;
+}
+
+const DuplicateReview: React.FC<DuplicateReviewProps> = ({
+  data,
+  entity,
+  onDataChange
+}) => {
+  const [mode, setMode] = useState<DuplicateMode>('exact');
+  const [threshold, setThreshold] = useState(DEFAULT_DUPLICATE_THRESHOLD);
+  // The rows last scanned and what was found in them
+  const [scan, setScan] = useState<{ rows: unknown[]; groups: DuplicateGroup[] } | null>(null);
+
+  const primaryKey = getEntitySchema(entity).primaryKey;
+  const comparedFields = useMemo(() => getDuplicateFields(data, primaryKey), [data, primaryKey]);
+  const groups = scan ? scan.groups : null;
+  // Edits made elsewhere since the scan may have moved the rows it refers to
+  const stale = scan !== null && scan.rows !== data;
+
+  // Fuzzy matching compares every pair of rows, so it runs on request, not on every slider tick or data edit
+  const runScan = (rows: unknown[], options: { mode: DuplicateMode; threshold: number }) => {
+    setScan({ rows, groups: findDuplicates(rows, { ...options, primaryKey }) });
+  };
+
+  const changeMode = (next: DuplicateMode) => {
+    setMode(next);
+    if (scan) runScan(data, { mode: next, threshold });
+  };
+
+  // Re-scan after every resolution so row numbers stay in step with the data
+  const resolve = (group: DuplicateGroup, resolution: DuplicateResolution, rowIndex: number) => {
+    const next = resolveDuplicateGroup(data, group, resolution, rowIndex);
+    onDataChange?.(next);
+    runScan(next, { mode, threshold });
+  };
+
+  const summarizeRow = (rowIndex: number) => {
+    const row = data[rowIndex - 1] as Record<string, unknown>;
+    return [primaryKey, ...comparedFields]
+      .map(field => displayValue(row, field))
+      .filter(Boolean)
+      .join(' · ');
+  };
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', gap: 2, alignItems: 'center', mb: 1 }}>
+        <FormControl size="small" sx={{ minWidth: 160 }}>
+          <InputLabel>Match</InputLabel>
+          <Select
+            value={mode}
+            onChange={(e) => changeMode(e.target.value as DuplicateMode)}
+            label="Match"
+          >
+            <MenuItem value="exact">Exact {primaryKey}</MenuItem>
+            <MenuItem value="fuzzy">Similar records</MenuItem>
+          </Select>
+        </FormControl>
+        {mode === 'fuzzy' && (
+          <Box sx={{ width: 220 }}>
+            <Typography variant="caption" color="text.secondary">
+              Similarity threshold: {Math.round(threshold * 100)}%
+            </Typography>
+            <Slider
+              value={threshold}
+              onChange={(_, value) => setThreshold(value as number)}
+              onChangeCommitted={(_, value) => scan && runScan(data, { mode, threshold: value as number })}
+              min={0.5}
+              max={1}
+              step={0.01}
+              size="small"
+            />
+          </Box>
+        )}
+        <Button variant="outlined" onClick={() => runScan(data, { mode, threshold })} sx={{ ml: 'auto' }}>
+          Find Duplicates
+        </Button>
+      </Box>
+      {mode === 'fuzzy' && (
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+          Compares {comparedFields.join(', ') || 'no columns'}, ignoring case and extra whitespace.
+        </Typography>
+      )}
+
+      {stale && (
+        <Alert severity="info" sx={{ mb: 1 }}>
+          The data changed since the last search. Find duplicates again to review them.
+        </Alert>
+      )}
+
+      {groups && !stale && groups.length > 0 && (
+        <List dense>
+          {groups.map((group) => (
+            <Box key={group.rowIndexes.join('-')}>
+              <ListItem>
+                <span style={{ width: '100%' }}>
+                  <span style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+                    <Typography component="span" variant="subtitle2">
+                      {group.key}
+                    </Typography>
+                    <Chip label={`${group.rowIndexes.length} rows`} size="small" color="warning" />
+                    {mode === 'fuzzy' && (
+                      <Chip label={`${Math.round(group.score * 100)}% similar`} size="small" variant="outlined" />
+                    )}
+                  </span>
+                  {group.rowIndexes.map((rowIndex) => (
+                    <span key={rowIndex} style={{ display: 'flex', alignItems: 'center', gap: 8, marginTop: 4 }}>
+                      <Typography component="span" variant="body2" color="text.secondary" sx={{ flex: 1 }}>
+                        Row {rowIndex}: {summarizeRow(rowIndex)}
+                      </Typography>
+                      <Button size="small" onClick={() => resolve(group, 'keep', rowIndex)} disabled={!onDataChange}>
+                        Keep
+                      </Button>
+                      <Button size="small" onClick={() => resolve(group, 'merge', rowIndex)} disabled={!onDataChange}>
+                        Merge Into
+                      </Button>
+                      <Button size="small" color="error" onClick={() => resolve(group, 'delete', rowIndex)} disabled={!onDataChange}>
+                        Delete
+                      </Button>
+                    </span>
+                  ))}
+                </span>
+              </ListItem>
+              <Divider />
+            </Box>
+          ))}
+        </List>
+      )}
+
+      {groups && !stale && groups.length === 0 && (
+        <Alert severity="success">
+          No duplicate records found.
+        </Alert>
+      )}
+    </Box>
+  );
+};
+
+export default DuplicateReview;
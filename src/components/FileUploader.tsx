@@ -1,43 +1,160 @@
-import React, { useCallback, useState } from 'react';
+import React, { useCallback, useRef, useState } from 'react';
 import { useDropzone } from 'react-dropzone';
-import * as XLSX from 'xlsx';
+import { Box, Button, FormControl, LinearProgress, MenuItem, Select, TextField, Typography } from '@mui/material';
+import {
+  applyColumnMapping,
+  assignSheets,
+  buildColumnMapping,
+  coerceRows,
+  CoercionIssue,
+  ColumnMapping,
+  needsReview,
+  ParseDiagnostics,
+  parseFile,
+  ParsedSheet,
+  ParseProgress,
+  ParseTask,
+  saveMapping,
+  SheetAssignments
+} from '../lib/parsers';
+import { getFieldKinds } from '../lib/validators';
+import { EntityType, ENTITY_LABELS, ENTITY_TYPES } from '../lib/utils';
+import ColumnMappingWizard from './ColumnMappingWizard';
+import ParseDiagnosticsReport from './ParseDiagnosticsReport';
 
 interface FileUploaderProps {
   label: string;
+  entity?: EntityType;
   onData: (data: unknown[], fileName: string) => void;
+  onSheets?: (assignments: SheetAssignments, fileName: string) => void;
   accept?: string;
 }
 
-const FileUploader: React.FC<FileUploaderProps> = ({ label, onData, accept }) => {
+const FileUploader: React.FC<FileUploaderProps> = ({ label, entity, onData, onSheets, accept }) => {
   const [error, setError] = useState<string | null>(null);
   const [fileName, setFileName] = useState<string | null>(null);
+  const [pendingSheets, setPendingSheets] = useState<ParsedSheet[] | null>(null);
+  const [progress, setProgress] = useState<ParseProgress | null>(null);
+  const [isParsing, setIsParsing] = useState(false);
+  const [pendingMappings, setPendingMappings] = useState<ColumnMapping[] | null>(null);
+  const [isWorkbookImport, setIsWorkbookImport] = useState(false);
+  const [coercionIssues, setCoercionIssues] = useState<CoercionIssue[]>([]);
+  const [diagnostics, setDiagnostics] = useState<ParseDiagnostics | null>(null);
+  const [showPaste, setShowPaste] = useState(false);
+  const [pastedText, setPastedText] = useState('');
+  const parseTask = useRef<ParseTask | null>(null);
 
-  const onDrop = useCallback((acceptedFiles: File[]) => {
+  const deliver = useCallback((mappings: ColumnMapping[], fromWorkbook: boolean, name: string) => {
+    const assignments: SheetAssignments = {};
+    const issues: CoercionIssue[] = [];
+    mappings.forEach((mapping) => {
+      const coerced = coerceRows(mapping.entity, applyColumnMapping(mapping), getFieldKinds(mapping.entity));
+      assignments[mapping.entity] = coerced.rows;
+      issues.push(...coerced.issues);
+    });
+    setCoercionIssues(issues);
+    if (fromWorkbook && onSheets) {
+      onSheets(assignments, name);
+    } else if (entity) {
+      onData(assignments[entity] || [], name);
+    }
+  }, [entity, onData, onSheets]);
+
+  // Headers that are not already canonical (or remembered) go through the mapping wizard
+  const startMapping = useCallback((assignments: SheetAssignments, fromWorkbook: boolean, name: string) => {
+    const mappings = ENTITY_TYPES
+      .filter(type => assignments[type])
+      .map(type => buildColumnMapping(type, assignments[type] || []));
+    if (mappings.some(needsReview)) {
+      setIsWorkbookImport(fromWorkbook);
+      setPendingMappings(mappings);
+      return;
+    }
+    deliver(mappings, fromWorkbook, name);
+  }, [deliver]);
+
+  const onDrop = useCallback(async (acceptedFiles: File[]) => {
     setError(null);
+    setPendingSheets(null);
+    setPendingMappings(null);
+    setCoercionIssues([]);
+    setDiagnostics(null);
     if (acceptedFiles.length === 0) return;
     const file = acceptedFiles[0];
     setFileName(file.name);
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      try {
-        const data = new Uint8Array(e.target?.result as ArrayBuffer);
-        const workbook = XLSX.read(data, { type: 'array' });
-        const sheetName = workbook.SheetNames[0];
-        const worksheet = workbook.Sheets[sheetName];
-        const json = XLSX.utils.sheet_to_json(worksheet, { defval: '' });
-        onData(json, file.name);
-      } catch {
-        setError('Failed to parse file. Please upload a valid CSV or XLSX.');
+    setProgress(null);
+    setIsParsing(true);
+    parseTask.current?.cancel();
+    const task = parseFile(file, setProgress);
+    parseTask.current = task;
+    try {
+      const outcome = await task.result;
+      if (!outcome) return;
+      setDiagnostics(outcome.diagnostics);
+      if (outcome.error) {
+        setError('Failed to parse file. See the diagnostics below for what is wrong with it.');
+        return;
+      }
+      const { sheets } = outcome;
+      // Workbooks with several tabs go through the sheet mapping step
+      if (onSheets && sheets.length > 1) {
+        setPendingSheets(sheets);
+        return;
+      }
+      const rows = sheets[0]?.rows || [];
+      if (entity) {
+        startMapping({ [entity]: rows }, false, file.name);
+      } else {
+        onData(rows, file.name);
+      }
+    } catch {
+      setError('Failed to parse file. Please upload a valid CSV, TSV, XLSX, JSON or NDJSON file.');
+    } finally {
+      if (parseTask.current === task) {
+        parseTask.current = null;
+        setIsParsing(false);
       }
-    };
-    reader.onerror = () => setError('Error reading file.');
-    reader.readAsArrayBuffer(file);
-  }, [onData]);
+    }
+  }, [entity, onData, onSheets, startMapping]);
+
+  const cancelParsing = () => {
+    parseTask.current?.cancel();
+    setFileName(null);
+  };
+
+  // Pasted ranges (tab-separated from spreadsheets) and JSON go through the same parser as files;
+  // the parser sniffs the format from the content
+  const importPasted = () => {
+    if (!pastedText.trim()) return;
+    const file = new File([pastedText], 'Pasted data', { type: 'text/plain' });
+    setShowPaste(false);
+    setPastedText('');
+    onDrop([file]);
+  };
+
+  const updateSheetEntity = (index: number, entity: EntityType | null) => {
+    setPendingSheets(prev => prev && prev.map((sheet, i) => i === index ? { ...sheet, entity } : sheet));
+  };
+
+  const importSheets = () => {
+    if (!pendingSheets || !onSheets) return;
+    startMapping(assignSheets(pendingSheets), true, fileName || '');
+    setPendingSheets(null);
+  };
+
+  const confirmMapping = (mappings: ColumnMapping[]) => {
+    mappings.forEach(saveMapping);
+    deliver(mappings, isWorkbookImport, fileName || '');
+    setPendingMappings(null);
+  };
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
     accept: accept ? { [accept]: [] } : {
       'text/csv': ['.csv'],
+      'text/tab-separated-values': ['.tsv'],
+      'application/json': ['.json'],
+      'application/x-ndjson': ['.ndjson', '.jsonl'],
       'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['.xlsx'],
       'application/vnd.ms-excel': ['.xls']
     },
@@ -48,10 +165,123 @@ const FileUploader: React.FC<FileUploaderProps> = ({ label, onData, accept }) =>
     <div style={{ border: '2px dashed #aaa', borderRadius: 8, padding: 20, marginBottom: 16 }}>
       <div {...getRootProps()} style={{ cursor: 'pointer', textAlign: 'center' }}>
         <input {...getInputProps()} />
-        <p>{isDragActive ? 'Drop the file here...' : `Upload ${label} (CSV/XLSX)`}</p>
-        {fileName && <p style={{ color: 'green' }}>Uploaded: {fileName}</p>}
+        <p>{isDragActive ? 'Drop the file here...' : `Upload ${label} (CSV/TSV/XLSX/JSON/NDJSON)`}</p>
+        {fileName && !pendingSheets && !pendingMappings && !isParsing && <p style={{ color: 'green' }}>Uploaded: {fileName}</p>}
       </div>
+      <Box sx={{ textAlign: 'center' }}>
+        <Button size="small" onClick={() => setShowPaste(!showPaste)} disabled={isParsing}>
+          {showPaste ? 'Hide Paste Area' : 'Paste from Clipboard'}
+        </Button>
+      </Box>
+      {showPaste && (
+        <Box sx={{ mt: 1 }}>
+          <TextField
+            fullWidth
+            multiline
+            minRows={4}
+            maxRows={12}
+            placeholder="Paste a range copied from Excel or Google Sheets (first row = headers), or JSON / NDJSON"
+            value={pastedText}
+            onChange={(e) => setPastedText(e.target.value)}
+            size="small"
+          />
+          <Button
+            size="small"
+            variant="contained"
+            onClick={importPasted}
+            disabled={!pastedText.trim()}
+            sx={{ mt: 1 }}
+          >
+            Import Pasted Data
+          </Button>
+        </Box>
+      )}
+      {isParsing && (
+        <Box sx={{ mt: 1 }}>
+          <LinearProgress
+            variant={progress ? 'determinate' : 'indeterminate'}
+            value={progress && progress.totalRows > 0 ? (progress.rowsParsed / progress.totalRows) * 100 : 0}
+          />
+          <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mt: 1 }}>
+            <Typography variant="body2" color="text.secondary">
+              {progress
+                ? `Parsing ${progress.sheetName}: ${progress.rowsParsed.toLocaleString()} of ${progress.totalRows.toLocaleString()} rows`
+                : `Reading ${fileName}...`}
+            </Typography>
+            <Button size="small" variant="outlined" onClick={cancelParsing}>
+              Cancel
+            </Button>
+          </Box>
+        </Box>
+      )}
+      {pendingSheets && (
+        <Box sx={{ mt: 1 }}>
+          <Typography variant="subtitle2" sx={{ mb: 1 }}>
+            {fileName} has {pendingSheets.length} sheets. Confirm where each one goes:
+          </Typography>
+          {pendingSheets.map((sheet, index) => (
+            <Box key={sheet.name} sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+              <Typography variant="body2" sx={{ flex: 1 }}>
+                {sheet.name} ({sheet.rows.length} rows)
+              </Typography>
+              <FormControl size="small" sx={{ minWidth: 120 }}>
+                <Select
+                  value={sheet.entity || 'skip'}
+                  onChange={(e) => updateSheetEntity(index, e.target.value === 'skip' ? null : e.target.value as EntityType)}
+                >
+                  {ENTITY_TYPES.map((entity) => (
+                    <MenuItem key={entity} value={entity}>
+                      {ENTITY_LABELS[entity]}
+                    </MenuItem>
+                  ))}
+                  <MenuItem value="skip">Skip</MenuItem>
+                </Select>
+              </FormControl>
+            </Box>
+          ))}
+          <Box sx={{ display: 'flex', gap: 1 }}>
+            <Button
+              size="small"
+              variant="contained"
+              onClick={importSheets}
+              disabled={pendingSheets.every(sheet => !sheet.entity)}
+            >
+              Import Sheets
+            </Button>
+            <Button size="small" variant="outlined" onClick={() => setPendingSheets(null)}>
+              Cancel
+            </Button>
+          </Box>
+        </Box>
+      )}
+      {pendingMappings && (
+        <ColumnMappingWizard
+          mappings={pendingMappings}
+          onConfirm={confirmMapping}
+          onCancel={() => setPendingMappings(null)}
+        />
+      )}
+      {coercionIssues.length > 0 && (
+        <Box sx={{ mt: 1 }}>
+          <Typography variant="body2" color="warning.main">
+            {coercionIssues.length} cell{coercionIssues.length === 1 ? '' : 's'} could not be converted and kept their original text:
+          </Typography>
+          {coercionIssues.slice(0, 5).map((issue, index) => (
+            <Typography key={index} variant="body2" color="text.secondary">
+              {ENTITY_LABELS[issue.entity]} row {issue.rowIndex}, {issue.field}: {issue.message} (Value: &quot;{String(issue.value)}&quot;)
+            </Typography>
+          ))}
+          {coercionIssues.length > 5 && (
+            <Typography variant="body2" color="text.secondary">
+              ... and {coercionIssues.length - 5} more
+            </Typography>
+          )}
+        </Box>
+      )}
       {error && <p style={{ color: 'red' }}>{error}</p>}
+      {diagnostics && (diagnostics.findings.length > 0 || error) && (
+        <ParseDiagnosticsReport diagnostics={diagnostics} />
+      )}
     </div>
   );
 };
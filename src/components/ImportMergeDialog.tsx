@@ -0,0 +1,139 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Divider,
+  FormControl,
+  InputLabel,
+  List,
+  ListItem,
+  MenuItem,
+  Select,
+  Typography
+} from '@mui/material';
+import { displayValue, MergeDiff, MergeMode, mergeRows, SheetAssignments } from '../lib/parsers';
+import { getEntitySchema } from '../lib/validators';
+import { EntityType, ENTITY_LABELS, ENTITY_TYPES } from '../lib/utils';
+
+interface ImportMergeDialogProps {
+  open: boolean;
+  fileName: string;
+  incoming: SheetAssignments;
+  existing: Record<EntityType, unknown[] | null>;
+  onConfirm: (merged: SheetAssignments) => void;
+  onCancel: () => void;
+}
+
+const MERGE_MODES: { value: MergeMode; label: string }[] = [
+  { value: 'replace', label: 'Replace existing data' },
+  { value: 'append', label: 'Append as new rows' },
+  { value: 'upsert', label: 'Upsert by primary key' },
+];
+
+const ImportMergeDialog: React.FC<ImportMergeDialogProps> = ({
+  open,
+  fileName,
+  incoming,
+  existing,
+  onConfirm,
+  onCancel
+}) => {
+  const [mode, setMode] = useState<MergeMode>('upsert');
+
+  const entities = useMemo(() => ENTITY_TYPES.filter(entity => incoming[entity]), [incoming]);
+
+  const diffs = useMemo(() => {
+    const result: Partial<Record<EntityType, MergeDiff>> = {};
+    entities.forEach((entity) => {
+      result[entity] = mergeRows(entity, existing[entity] || [], incoming[entity] || [], mode);
+    });
+    return result;
+  }, [entities, existing, incoming, mode]);
+
+  const confirm = () => {
+    const merged: SheetAssignments = {};
+    entities.forEach((entity) => {
+      merged[entity] = diffs[entity]?.result;
+    });
+    onConfirm(merged);
+  };
+
+  return (
+    <Dialog open={open} onClose={onCancel} maxWidth="md" fullWidth>
+      <DialogTitle>Import {fileName}</DialogTitle>
+      <DialogContent>
+        <FormControl size="small" sx={{ minWidth: 250, mt: 1, mb: 2 }}>
+          <InputLabel>Merge Mode</InputLabel>
+          <Select
+            value={mode}
+            onChange={(e) => setMode(e.target.value as MergeMode)}
+            label="Merge Mode"
+          >
+            {MERGE_MODES.map((option) => (
+              <MenuItem key={option.value} value={option.value}>
+                {option.label}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+
+        {entities.map((entity) => {
+          const diff = diffs[entity];
+          if (!diff) return null;
+          return (
+            <Box key={entity} sx={{ mb: 2 }}>
+              <Typography variant="subtitle2" sx={{ mb: 1 }}>
+                {ENTITY_LABELS[entity]} (matched on {getEntitySchema(entity).primaryKey})
+              </Typography>
+              <Box sx={{ display: 'flex', gap: 1, mb: 1 }}>
+                <Chip label={`${diff.added.length} added`} size="small" color="success" variant="outlined" />
+                <Chip label={`${diff.updated.length} updated`} size="small" color="warning" variant="outlined" />
+                <Chip label={`${diff.unchanged.length} unchanged`} size="small" variant="outlined" />
+                {mode === 'replace' && (
+                  <Chip label={`${diff.removed.length} removed`} size="small" color="error" variant="outlined" />
+                )}
+              </Box>
+              {diff.updated.length > 0 && (
+                <List dense>
+                  {diff.updated.slice(0, 10).map((change) => (
+                    <ListItem key={change.key}>
+                      <span style={{ width: '100%' }}>
+                        <Typography component="span" variant="body2" style={{ display: 'block' }}>
+                          {change.key}
+                        </Typography>
+                        {change.changedFields.map((field) => (
+                          <Typography key={field} component="span" variant="body2" color="text.secondary" style={{ display: 'block' }}>
+                            {field}: &quot;{displayValue(change.before, field)}&quot; → &quot;{displayValue(change.after, field)}&quot;
+                          </Typography>
+                        ))}
+                      </span>
+                    </ListItem>
+                  ))}
+                  {diff.updated.length > 10 && (
+                    <Typography variant="body2" color="text.secondary">
+                      ... and {diff.updated.length - 10} more updated rows
+                    </Typography>
+                  )}
+                </List>
+              )}
+              <Divider />
+            </Box>
+          );
+        })}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onCancel}>Cancel</Button>
+        <Button variant="contained" onClick={confirm}>
+          Apply Import
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ImportMergeDialog;
@@ -16,6 +16,7 @@ import {
   Select,
   MenuItem
 } from '@mui/material';
+import { getFields } from '../lib/utils';
 
 interface DataModification {
   id: string;
@@ -49,7 +50,7 @@ const NaturalLanguageDataModifier: React.FC<NaturalLanguageDataModifierProps> =
   const [previewMode, setPreviewMode] = useState(false);
 
   // Available fields from data
-  const availableFields = data && data.length > 0 ? Object.keys(data[0] as Record<string, unknown>) : [];
+  const availableFields = getFields(data);
 
   // Updated parseCommand to accept setError and availableFields
   const parseCommand = (command: string, setError?: (msg: string) => void): Partial<DataModification> | null => {
@@ -13,6 +13,8 @@ import {
   ListItem,
   Divider
 } from '@mui/material';
+import { displayValue } from '../lib/parsers';
+import { getFields } from '../lib/utils';
 
 interface SearchResult {
   rowIndex: number;
@@ -84,8 +86,9 @@ const NaturalLanguageSearch: React.FC<NaturalLanguageSearchProps> = ({
         let highlight = '';
 
         // Check each field in the row
-        Object.entries(typedRow).forEach(([field, value]) => {
-          const fieldValue = String(value).toLowerCase();
+        getFields([typedRow]).forEach((field) => {
+          const value = displayValue(typedRow, field);
+          const fieldValue = value.toLowerCase();
           
           // Apply filters
           if (filters[field] && fieldValue.includes(filters[field].toLowerCase())) {
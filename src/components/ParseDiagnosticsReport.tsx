@@ -0,0 +1,99 @@
+import React, { useMemo } from 'react';
+import {
+  Box,
+  Typography,
+  Chip,
+  List,
+  ListItem,
+  Divider
+} from '@mui/material';
+import { DiagnosticFinding, delimiterLabel, ParseDiagnostics } from '../lib/parsers';
+
+interface ParseDiagnosticsReportProps {
+  diagnostics: ParseDiagnostics;
+}
+
+const CODE_LABELS: Record<DiagnosticFinding['code'], string> = {
+  unreadable: 'Unreadable file',
+  invalid_json: 'Invalid JSON',
+  encoding: 'Encoding',
+  bom: 'Byte order mark',
+  ragged_row: 'Ragged rows',
+  blank_header: 'Blank headers',
+  duplicate_header: 'Duplicate headers',
+  merged_cells: 'Merged cells',
+  trailing_empty_rows: 'Trailing empty rows',
+};
+
+const formatLocation = (finding: DiagnosticFinding) => {
+  const parts: string[] = [];
+  if (finding.sheet) parts.push(`Sheet "${finding.sheet}"`);
+  if (finding.row) parts.push(`Row ${finding.row}`);
+  if (finding.column) parts.push(`Column ${finding.column}`);
+  return parts.join(', ');
+};
+
+const ParseDiagnosticsReport: React.FC<ParseDiagnosticsReportProps> = ({ diagnostics }) => {
+  const groupedFindings = useMemo(() => {
+    const grouped: Partial<Record<DiagnosticFinding['code'], DiagnosticFinding[]>> = {};
+    diagnostics.findings.forEach(finding => {
+      grouped[finding.code] = [...(grouped[finding.code] || []), finding];
+    });
+    return grouped;
+  }, [diagnostics]);
+
+  const getSeverityColor = (severity: DiagnosticFinding['severity']) => {
+    switch (severity) {
+      case 'error': return 'error';
+      case 'warning': return 'warning';
+      default: return 'info';
+    }
+  };
+
+  return (
+    <Box sx={{ mt: 1, textAlign: 'left' }}>
+      <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', mb: 1 }}>
+        <Chip label={`Format: ${diagnostics.format.toUpperCase()}`} size="small" variant="outlined" />
+        {diagnostics.encoding && (
+          <Chip label={`Encoding: ${diagnostics.encoding}`} size="small" variant="outlined" />
+        )}
+        {diagnostics.delimiter && (
+          <Chip label={`Delimiter: ${delimiterLabel(diagnostics.delimiter)}`} size="small" variant="outlined" />
+        )}
+        <Chip label={diagnostics.hasBom ? 'BOM present' : 'No BOM'} size="small" variant="outlined" />
+      </Box>
+
+      {diagnostics.findings.length > 0 && (
+        <List dense>
+          {Object.entries(groupedFindings).map(([code, findings]) => (
+            <Box key={code}>
+              <ListItem>
+                <span style={{ width: '100%' }}>
+                  <span style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+                    <Typography component="span" variant="subtitle2">
+                      {CODE_LABELS[code as DiagnosticFinding['code']]}
+                    </Typography>
+                    <Chip label={findings.length} size="small" color={getSeverityColor(findings[0].severity)} />
+                  </span>
+                  {findings.slice(0, 5).map((finding, index) => (
+                    <Typography key={index} component="span" variant="body2" color="text.secondary" style={{ display: 'block' }}>
+                      {formatLocation(finding) && `${formatLocation(finding)}: `}{finding.message}
+                    </Typography>
+                  ))}
+                  {findings.length > 5 && (
+                    <Typography component="span" variant="body2" color="text.secondary" style={{ display: 'block' }}>
+                      ... and {findings.length - 5} more
+                    </Typography>
+                  )}
+                </span>
+              </ListItem>
+              <Divider />
+            </Box>
+          ))}
+        </List>
+      )}
+    </Box>
+  );
+};
+
+export default ParseDiagnosticsReport;
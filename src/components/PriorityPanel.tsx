@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React from 'react';
 import {
   Box,
   Typography,
@@ -7,133 +7,85 @@ import {
   Slider,
   Chip,
   Button,
-  TextField,
   Alert,
-  FormControl,
-  InputLabel,
-  Select,
-  MenuItem,
   Divider,
+  LinearProgress,
   List,
-  ListItem
+  ListItem,
+  ToggleButton,
+  ToggleButtonGroup
 } from '@mui/material';
-
-interface PriorityItem {
-  id: string;
-  name: string;
-  priority: number;
-  weight: number;
-  category: string;
-  description: string;
-}
+import {
+  ALLOCATION_CRITERIA,
+  AllocationCriterion,
+  analyzeJudgments,
+  CRITERION_PAIRS,
+  DEFAULT_PRIORITY_SETTINGS,
+  getJudgment,
+  getMissingCriterionSources,
+  getPriorityWeights,
+  MAX_CONSISTENCY_RATIO,
+  pairKey,
+  PrioritySettings,
+  WeightingMethod
+} from '../lib/rules';
+import { EntityDatasets } from '../lib/validators';
+import { ENTITY_LABELS, ENTITY_TYPES } from '../lib/utils';
 
 interface PriorityPanelProps {
-  data: unknown[];
-  title: string;
-  onPrioritiesChange?: (priorities: PriorityItem[]) => void;
+  // Criteria read clients, workers and tasks, so the panel looks at every dataset
+  datasets: EntityDatasets;
+  // Held by the page so they survive tab switches and go into rules.json
+  priorities: PrioritySettings;
+  onPrioritiesChange?: (priorities: PrioritySettings) => void;
 }
 
-const PriorityPanel: React.FC<PriorityPanelProps> = ({
-  data,
-  title,
-  onPrioritiesChange
-}) => {
-  const [priorities, setPriorities] = useState<PriorityItem[]>([]);
-  const [newItem, setNewItem] = useState<Partial<PriorityItem>>({
-    name: '',
-    priority: 5,
-    weight: 1,
-    category: 'default',
-    description: ''
-  });
-  const [selectedCategory, setSelectedCategory] = useState<string>('all');
-
-  // Categories
-  const categories = [
-    { value: 'default', label: 'Default' },
-    { value: 'high', label: 'High Priority' },
-    { value: 'medium', label: 'Medium Priority' },
-    { value: 'low', label: 'Low Priority' },
-    { value: 'critical', label: 'Critical' }
-  ];
-
-  const addPriorityItem = () => {
-    if (!newItem.name) return;
-
-    const item: PriorityItem = {
-      id: Date.now().toString(),
-      name: newItem.name,
-      priority: newItem.priority || 5,
-      weight: newItem.weight || 1,
-      category: newItem.category || 'default',
-      description: newItem.description || ''
-    };
-
-    const updatedPriorities = [...priorities, item];
-    setPriorities(updatedPriorities);
-    onPrioritiesChange?.(updatedPriorities);
+const getImportanceLabel = (importance: number) => {
+  if (importance >= 8) return 'Critical';
+  if (importance >= 6) return 'High';
+  if (importance >= 3) return 'Medium';
+  if (importance > 0) return 'Low';
+  return 'Ignored';
+};
 
-    // Reset form
-    setNewItem({
-      name: '',
-      priority: 5,
-      weight: 1,
-      category: 'default',
-      description: ''
-    });
-  };
+const getCriterionLabel = (criterion: AllocationCriterion) => {
+  return ALLOCATION_CRITERIA.find(candidate => candidate.value === criterion)?.label || criterion;
+};
 
-  const updatePriority = (id: string, priority: number) => {
-    const updatedPriorities = priorities.map(item =>
-      item.id === id ? { ...item, priority } : item
-    );
-    setPriorities(updatedPriorities);
-    onPrioritiesChange?.(updatedPriorities);
-  };
+// The comparison slider runs from -8 (b is 9× more important) through 0 (equal) to 8 (a is 9×)
+const toSliderValue = (judgment: number) => Math.round(judgment >= 1 ? judgment - 1 : 1 - 1 / judgment);
+const fromSliderValue = (value: number) => value >= 0 ? value + 1 : 1 / (1 - value);
 
-  const updateWeight = (id: string, weight: number) => {
-    const updatedPriorities = priorities.map(item =>
-      item.id === id ? { ...item, weight } : item
-    );
-    setPriorities(updatedPriorities);
-    onPrioritiesChange?.(updatedPriorities);
-  };
+const describeJudgment = (a: AllocationCriterion, b: AllocationCriterion, judgment: number) => {
+  if (judgment === 1) return 'Equally important';
+  return judgment > 1
+    ? `${getCriterionLabel(a)} is ${judgment}× more important`
+    : `${getCriterionLabel(b)} is ${Math.round(1 / judgment)}× more important`;
+};
 
-  const deleteItem = (id: string) => {
-    const updatedPriorities = priorities.filter(item => item.id !== id);
-    setPriorities(updatedPriorities);
-    onPrioritiesChange?.(updatedPriorities);
-  };
+const PriorityPanel: React.FC<PriorityPanelProps> = ({
+  datasets,
+  priorities,
+  onPrioritiesChange
+}) => {
+  const weights = getPriorityWeights(priorities);
+  const missing = getMissingCriterionSources(datasets);
+  const pairwise = priorities.method === 'pairwise' ? analyzeJudgments(priorities.judgments) : null;
 
-  const getPriorityColor = (priority: number) => {
-    if (priority >= 8) return 'error';
-    if (priority >= 6) return 'warning';
-    if (priority >= 4) return 'info';
-    return 'success';
+  const updateImportance = (criterion: AllocationCriterion, importance: number) => {
+    onPrioritiesChange?.({ ...priorities, importance: { ...priorities.importance, [criterion]: importance } });
   };
 
-  const getPriorityLabel = (priority: number) => {
-    if (priority >= 8) return 'Critical';
-    if (priority >= 6) return 'High';
-    if (priority >= 4) return 'Medium';
-    return 'Low';
+  const updateJudgment = (a: AllocationCriterion, b: AllocationCriterion, value: number) => {
+    onPrioritiesChange?.({ ...priorities, judgments: { ...priorities.judgments, [pairKey(a, b)]: fromSliderValue(value) } });
   };
 
-  const filteredPriorities = selectedCategory === 'all' 
-    ? priorities 
-    : priorities.filter(item => item.category === selectedCategory);
-
-  const totalWeight = priorities.reduce((sum, item) => sum + item.weight, 0);
-  const averagePriority = priorities.length > 0 
-    ? priorities.reduce((sum, item) => sum + item.priority, 0) / priorities.length 
-    : 0;
-
-  if (!data || data.length === 0) {
+  if (ENTITY_TYPES.every(entity => !datasets[entity]?.length)) {
     return (
       <Card>
         <CardContent>
           <Typography variant="h6" color="text.secondary">
-            No {title} data to prioritize
+            No data to prioritize
           </Typography>
         </CardContent>
       </Card>
@@ -143,172 +95,179 @@ const PriorityPanel: React.FC<PriorityPanelProps> = ({
   return (
     <Card>
       <CardContent>
-        <Typography variant="h6" sx={{ mb: 2 }}>
-          {title} Priority Management
+        <Box sx={{ display: 'flex', alignItems: 'center', mb: 2 }}>
+          <Typography variant="h6" sx={{ flex: 1 }}>
+            Allocation Priorities
+          </Typography>
+          <Button
+            size="small"
+            onClick={() => onPrioritiesChange?.(DEFAULT_PRIORITY_SETTINGS)}
+            disabled={!onPrioritiesChange}
+          >
+            Reset to Equal
+          </Button>
+        </Box>
+
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Set how much each criterion matters when the allocation engine cannot satisfy everything.
+          Weights are normalized to sum to 1 and exported with rules.json.
         </Typography>
 
-        {/* Summary Stats */}
-        {priorities.length > 0 && (
-          <Box sx={{ mb: 3, p: 2, bgcolor: 'grey.50', borderRadius: 1 }}>
-            <Box sx={{ display: 'flex', gap: 2, mb: 1 }}>
-              <Chip label={`${priorities.length} items`} size="small" />
-              <Chip label={`Total Weight: ${totalWeight}`} size="small" />
-              <Chip label={`Avg Priority: ${averagePriority.toFixed(1)}`} size="small" />
-            </Box>
-            <Typography variant="body2" color="text.secondary">
-              Manage priorities and weights for data processing rules
-            </Typography>
-          </Box>
-        )}
+        <ToggleButtonGroup
+          size="small"
+          exclusive
+          value={priorities.method}
+          onChange={(_, value: WeightingMethod | null) => value && onPrioritiesChange?.({ ...priorities, method: value })}
+          disabled={!onPrioritiesChange}
+          sx={{ mb: 2 }}
+        >
+          <ToggleButton value="sliders">Sliders</ToggleButton>
+          <ToggleButton value="pairwise">Pairwise Comparison</ToggleButton>
+        </ToggleButtonGroup>
 
-        {/* Add New Item */}
-        <Box sx={{ mb: 3 }}>
-          <Typography variant="subtitle2" sx={{ mb: 1 }}>
-            Add Priority Item
-          </Typography>
-          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
-            <Box sx={{ display: 'flex', gap: 2 }}>
-              <TextField
-                fullWidth
-                label="Item Name"
-                value={newItem.name}
-                onChange={(e) => setNewItem({ ...newItem, name: e.target.value })}
-                size="small"
-              />
-              <FormControl fullWidth size="small">
-                <InputLabel>Category</InputLabel>
-                <Select
-                  value={newItem.category}
-                  onChange={(e) => setNewItem({ ...newItem, category: e.target.value })}
-                  label="Category"
-                >
-                  {categories.map((cat) => (
-                    <MenuItem key={cat.value} value={cat.value}>
-                      {cat.label}
-                    </MenuItem>
-                  ))}
-                </Select>
-              </FormControl>
-            </Box>
-            
-            <Box sx={{ display: 'flex', gap: 2, alignItems: 'center' }}>
-              <Box sx={{ flex: 1 }}>
-                <Typography variant="body2" color="text.secondary">
-                  Priority: {newItem.priority || 5}
-                </Typography>
-                <Slider
-                  value={newItem.priority || 5}
-                  onChange={(_, value) => setNewItem({ ...newItem, priority: value as number })}
-                  min={1}
-                  max={10}
-                  marks
-                  valueLabelDisplay="auto"
-                />
-              </Box>
-              <Box sx={{ flex: 1 }}>
-                <Typography variant="body2" color="text.secondary">
-                  Weight: {newItem.weight || 1}
-                </Typography>
-                <Slider
-                  value={newItem.weight || 1}
-                  onChange={(_, value) => setNewItem({ ...newItem, weight: value as number })}
-                  min={0.1}
-                  max={5}
-                  step={0.1}
-                  valueLabelDisplay="auto"
-                />
-              </Box>
-            </Box>
-            
-            <TextField
-              fullWidth
-              label="Description (Optional)"
-              value={newItem.description}
-              onChange={(e) => setNewItem({ ...newItem, description: e.target.value })}
-              size="small"
+        {/* Weight vector */}
+        <Box sx={{ display: 'flex', height: 12, borderRadius: 1, overflow: 'hidden', mb: 1 }}>
+          {ALLOCATION_CRITERIA.map((criterion, index) => (
+            <Box
+              key={criterion.value}
+              title={`${criterion.label}: ${(weights[criterion.value] * 100).toFixed(1)}%`}
+              sx={{ width: `${weights[criterion.value] * 100}%`, bgcolor: ['primary.main', 'secondary.main', 'success.main', 'warning.main', 'info.main'][index] }}
             />
-            
-            <Button
-              variant="contained"
-              onClick={addPriorityItem}
-              disabled={!newItem.name}
-              sx={{ alignSelf: 'flex-start' }}
-            >
-              Add Item
-            </Button>
-          </Box>
+          ))}
         </Box>
 
-        <Divider sx={{ mb: 2 }} />
+        {missing.length > 0 && (
+          <Alert severity="warning" sx={{ mb: 2 }}>
+            Some criteria read columns that are not loaded, so the engine cannot score them yet.
+          </Alert>
+        )}
 
-        {/* Filter */}
-        <Box sx={{ mb: 2 }}>
-          <FormControl size="small" sx={{ minWidth: 200 }}>
-            <InputLabel>Filter by Category</InputLabel>
-            <Select
-              value={selectedCategory}
-              onChange={(e) => setSelectedCategory(e.target.value)}
-              label="Filter by Category"
-            >
-              <MenuItem value="all">All Categories</MenuItem>
-              {categories.map((cat) => (
-                <MenuItem key={cat.value} value={cat.value}>
-                  {cat.label}
-                </MenuItem>
-              ))}
-            </Select>
-          </FormControl>
-        </Box>
+        <Divider sx={{ mb: 1 }} />
 
-        {/* Priorities List */}
-        {filteredPriorities.length > 0 ? (
-          <List dense>
-            {filteredPriorities.map((item) => (
-              <Box key={item.id}>
+        <List dense>
+          {ALLOCATION_CRITERIA.map((criterion) => {
+            const importance = priorities.importance[criterion.value];
+            return (
+              <Box key={criterion.value}>
                 <ListItem>
                   <span style={{ width: '100%' }}>
                     <span style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
                       <Typography component="span" variant="subtitle2">
-                        {item.name}
+                        {criterion.label}
                       </Typography>
-                      <Chip label={getPriorityLabel(item.priority)} size="small" color={getPriorityColor(item.priority)} variant="outlined" />
-                      <Chip label={`Weight: ${item.weight}`} size="small" variant="outlined" />
-                      <Chip label={item.category} size="small" variant="outlined" />
+                      <Chip label={`Weight: ${weights[criterion.value].toFixed(3)}`} size="small" color="primary" variant="outlined" />
+                      {!pairwise && <Chip label={getImportanceLabel(importance)} size="small" variant="outlined" />}
+                      <Chip
+                        label={`${ENTITY_LABELS[criterion.source.entity]}.${criterion.source.field}`}
+                        size="small"
+                        color={missing.includes(criterion.value) ? 'warning' : 'default'}
+                        variant="outlined"
+                        sx={{ fontFamily: 'monospace' }}
+                      />
                     </span>
-                    {item.description && (
-                      <Typography component="span" variant="body2" color="text.secondary" style={{ marginBottom: 8, display: 'block' }}>
-                        {item.description}
-                      </Typography>
-                    )}
-                    <span style={{ display: 'flex', gap: 8, alignItems: 'center' }}>
+                    <Typography component="span" variant="body2" color="text.secondary" style={{ display: 'block' }}>
+                      {criterion.description}
+                    </Typography>
+                    <span style={{ display: 'flex', gap: 16, alignItems: 'center' }}>
                       <span style={{ flex: 1 }}>
-                        <Typography component="span" variant="body2" color="text.secondary">
-                          Priority: {item.priority}
-                        </Typography>
-                        <Slider value={item.priority} onChange={(_, value) => updatePriority(item.id, value as number)} min={1} max={10} size="small" />
+                        {!pairwise && (
+                          <Slider
+                            value={importance}
+                            onChange={(_, value) => updateImportance(criterion.value, value as number)}
+                            min={0}
+                            max={10}
+                            step={1}
+                            marks
+                            valueLabelDisplay="auto"
+                            size="small"
+                            disabled={!onPrioritiesChange}
+                          />
+                        )}
                       </span>
-                      <span style={{ flex: 1 }}>
-                        <Typography component="span" variant="body2" color="text.secondary">
-                          Weight: {item.weight}
-                        </Typography>
-                        <Slider value={item.weight} onChange={(_, value) => updateWeight(item.id, value as number)} min={0.1} max={5} step={0.1} size="small" />
+                      <span style={{ width: 120 }}>
+                        <LinearProgress variant="determinate" value={weights[criterion.value] * 100} />
                       </span>
                     </span>
                   </span>
-                  <Button size="small" onClick={() => deleteItem(item.id)} color="error" variant="outlined">Delete</Button>
                 </ListItem>
                 <Divider />
               </Box>
-            ))}
-          </List>
-        ) : priorities.length > 0 ? (
-          <Alert severity="info">
-            No items match the selected category filter.
-          </Alert>
-        ) : (
-          <Alert severity="info">
-            No priority items created yet. Add items to manage priorities and weights.
-          </Alert>
+            );
+          })}
+        </List>
+
+        {/* Pairwise comparison (AHP) */}
+        {pairwise && (
+          <Box sx={{ mt: 3 }}>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+              <Typography variant="subtitle2" sx={{ flex: 1 }}>
+                Comparisons
+              </Typography>
+              <Chip
+                label={`Consistency Ratio: ${pairwise.consistencyRatio.toFixed(3)}`}
+                size="small"
+                color={pairwise.consistencyRatio > MAX_CONSISTENCY_RATIO ? 'error' : 'success'}
+              />
+            </Box>
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+              For each pair, slide towards the criterion that matters more and by how much.
+              Weights come from the Analytic Hierarchy Process; a consistency ratio above {MAX_CONSISTENCY_RATIO} means the judgments contradict each other.
+            </Typography>
+
+            {pairwise.consistencyRatio > MAX_CONSISTENCY_RATIO && (
+              <Alert severity="warning" sx={{ mb: 2 }}>
+                These judgments are inconsistent, so the weights may not reflect what you meant.
+              </Alert>
+            )}
+
+            {/* A cycle can hide under a low ratio when its judgments are mild */}
+            {pairwise.contradictions.length > 0 && (
+              <Alert severity="warning" sx={{ mb: 2 }}>
+                Some judgments go round in a circle:
+                {pairwise.contradictions.map(([a, b, c]) => (
+                  <Typography key={`${a}:${b}:${c}`} variant="body2" sx={{ mt: 0.5 }}>
+                    {getCriterionLabel(a)} was rated above {getCriterionLabel(b)}, and {getCriterionLabel(b)} above {getCriterionLabel(c)}, but {getCriterionLabel(c)} above {getCriterionLabel(a)}.
+                  </Typography>
+                ))}
+              </Alert>
+            )}
+
+            <List dense>
+              {CRITERION_PAIRS.map(([a, b]) => {
+                const judgment = getJudgment(priorities.judgments, a, b);
+                return (
+                  <ListItem key={pairKey(a, b)}>
+                    <span style={{ width: '100%' }}>
+                      <span style={{ display: 'flex', alignItems: 'center', gap: 16 }}>
+                        <Typography component="span" variant="body2" sx={{ width: 200, textAlign: 'right' }}>
+                          {getCriterionLabel(a)}
+                        </Typography>
+                        <span style={{ flex: 1 }}>
+                          <Slider
+                            value={toSliderValue(judgment)}
+                            onChange={(_, value) => updateJudgment(a, b, value as number)}
+                            min={-8}
+                            max={8}
+                            step={1}
+                            marks
+                            track={false}
+                            size="small"
+                            disabled={!onPrioritiesChange}
+                          />
+                        </span>
+                        <Typography component="span" variant="body2" sx={{ width: 200 }}>
+                          {getCriterionLabel(b)}
+                        </Typography>
+                      </span>
+                      <Typography component="span" variant="caption" color="text.secondary" sx={{ display: 'block', textAlign: 'center' }}>
+                        {describeJudgment(a, b, judgment)}
+                      </Typography>
+                    </span>
+                  </ListItem>
+                );
+              })}
+            </List>
+          </Box>
         )}
       </CardContent>
     </Card>
@@ -0,0 +1,76 @@
+import React, { useMemo } from 'react';
+import {
+  Box,
+  Chip,
+  List,
+  ListItem,
+  Typography,
+  Alert
+} from '@mui/material';
+import { AllocationRule, analyzeRules, Rule, RULE_FINDING_LABELS, RuleFindingKind } from '../lib/rules';
+import { EntityDatasets } from '../lib/validators';
+
+interface RuleAnalysisPanelProps {
+  rules: Rule[];
+  allocationRules: AllocationRule[];
+  datasets: EntityDatasets;
+}
+
+const FINDING_ORDER: RuleFindingKind[] = ['conflict', 'cycle', 'shadowed', 'redundant'];
+
+const getFindingColor = (kind: RuleFindingKind) => {
+  switch (kind) {
+    case 'conflict': return 'error';
+    case 'cycle': return 'error';
+    case 'shadowed': return 'warning';
+    default: return 'info';
+  }
+};
+
+const RuleAnalysisPanel: React.FC<RuleAnalysisPanelProps> = ({
+  rules,
+  allocationRules,
+  datasets
+}) => {
+  const findings = useMemo(() => analyzeRules(rules, allocationRules, datasets), [rules, allocationRules, datasets]);
+
+  if (findings.length === 0) {
+    return (
+      <Alert severity="success">
+        No conflicts, cycles, shadowed or redundant rules among the active rules.
+      </Alert>
+    );
+  }
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', mb: 1 }}>
+        {FINDING_ORDER.map((kind) => {
+          const count = findings.filter(finding => finding.kind === kind).length;
+          return count > 0 && (
+            <Chip key={kind} label={`${RULE_FINDING_LABELS[kind]}: ${count}`} size="small" color={getFindingColor(kind)} variant="outlined" />
+          );
+        })}
+      </Box>
+      <List dense>
+        {FINDING_ORDER.flatMap(kind => findings.filter(finding => finding.kind === kind)).map((finding, index) => (
+          <ListItem key={`${finding.kind}:${finding.ruleIds.join(',')}:${index}`}>
+            <span style={{ width: '100%' }}>
+              <span style={{ display: 'flex', alignItems: 'center', gap: 8, flexWrap: 'wrap' }}>
+                <Chip label={RULE_FINDING_LABELS[finding.kind]} size="small" color={getFindingColor(finding.kind)} />
+                {finding.ruleIds.map(id => (
+                  <Chip key={id} label={id} size="small" variant="outlined" sx={{ fontFamily: 'monospace' }} />
+                ))}
+              </span>
+              <Typography component="span" variant="body2" sx={{ display: 'block', mt: 0.5 }}>
+                {finding.message}
+              </Typography>
+            </span>
+          </ListItem>
+        ))}
+      </List>
+    </Box>
+  );
+};
+
+export default RuleAnalysisPanel;
@@ -16,140 +16,113 @@ import {
   List,
   ListItem
 } from '@mui/material';
-
-interface Rule {
-  id: string;
-  name: string;
-  description: string;
-  field: string;
-  operator: string;
-  value: string;
-  action: string;
-  priority: number;
-  isActive: boolean;
-}
+import ConditionGroupEditor from './ConditionGroupEditor';
+import RuleRunPanel from './RuleRunPanel';
+import AllocationRuleBuilder from './AllocationRuleBuilder';
+import RuleAnalysisPanel from './RuleAnalysisPanel';
+import RuleSandbox from './RuleSandbox';
+import RuleSuggestions from './RuleSuggestions';
+import RuleLibrary from './RuleLibrary';
+import { RuleSuggestion, RuleSuggestionResult, suggestRules } from '../lib/ai';
+import { EntityDatasets, getFieldDefinition, getEntityFieldNames } from '../lib/validators';
+import {
+  ACTIONS,
+  AllocationRule,
+  AppliedTemplate,
+  createGroup,
+  createGroupTemplate,
+  createRuleTemplate,
+  describeCondition,
+  describeEffect,
+  evaluateCondition,
+  getAllocationContext,
+  isConditionComplete,
+  Rule,
+  RuleAction,
+  RuleEffect,
+  RuleTemplate,
+  TRANSFORM_OPERATIONS,
+  TransformOperation,
+  VALUELESS_OPERATIONS
+} from '../lib/rules';
+import { EntityType, ENTITY_LABELS, getFields } from '../lib/utils';
 
 interface RuleBuilderProps {
   data: unknown[];
   title: string;
+  entity: EntityType;
+  // Rules for every entity; the builder shows and edits the ones for `entity`
+  rules: Rule[];
   onRulesChange?: (rules: Rule[]) => void;
+  // Lets the rule engine write its result back to the dataset
+  onDataChange?: (data: unknown[]) => void;
+  // Allocation rules span datasets, so they are checked against all of them
+  allocationRules: AllocationRule[];
+  onAllocationRulesChange?: (rules: AllocationRule[]) => void;
+  datasets: EntityDatasets;
+  // Templates saved to the rule library, shared by every entity
+  ruleTemplates: RuleTemplate[];
+  onRuleTemplatesChange?: (templates: RuleTemplate[]) => void;
 }
 
+type RuleDraft = Pick<Rule, 'name' | 'description' | 'condition' | 'action' | 'priority'> & { effect: RuleEffect };
+
+const emptyDraft = (priority = 1): RuleDraft => ({
+  name: '',
+  description: '',
+  condition: createGroup(),
+  action: 'flag',
+  priority,
+  effect: { field: '', operation: 'set', value: '' }
+});
+
+// auto_correct always sets a value; transform can use any operation
+const needsEffect = (action: RuleAction) => action === 'auto_correct' || action === 'transform';
+
+const isEffectComplete = (effect: RuleEffect) => {
+  return Boolean(effect.field) && (effect.operation === 'set' || VALUELESS_OPERATIONS.includes(effect.operation) || effect.value !== '');
+};
+
 const RuleBuilder: React.FC<RuleBuilderProps> = ({
   data,
   title,
-  onRulesChange
+  entity,
+  rules,
+  onRulesChange,
+  onDataChange,
+  allocationRules,
+  onAllocationRulesChange,
+  datasets,
+  ruleTemplates,
+  onRuleTemplatesChange
 }) => {
-  const [rules, setRules] = useState<Rule[]>([]);
-  const [newRule, setNewRule] = useState<Partial<Rule>>({
-    name: '',
-    description: '',
-    field: '',
-    operator: 'equals',
-    value: '',
-    action: 'flag',
-    priority: 1,
-    isActive: true
-  });
+  const [newRule, setNewRule] = useState<RuleDraft>(() => emptyDraft(rules.length + 1));
   const [naturalLanguageInput, setNaturalLanguageInput] = useState('');
   const [isProcessing, setIsProcessing] = useState(false);
+  const [suggestions, setSuggestions] = useState<RuleSuggestionResult | null>(null);
 
-  // Available fields from data
-  let availableFields: string[] = [];
-  if (data && data.length > 0) {
-    const sampleRow = data[0] as Record<string, unknown>;
-    availableFields = Object.keys(sampleRow);
-  }
-
-  // Operators for different data types
-  const operators = [
-    { value: 'equals', label: 'Equals' },
-    { value: 'not_equals', label: 'Not Equals' },
-    { value: 'contains', label: 'Contains' },
-    { value: 'not_contains', label: 'Not Contains' },
-    { value: 'starts_with', label: 'Starts With' },
-    { value: 'ends_with', label: 'Ends With' },
-    { value: 'greater_than', label: 'Greater Than' },
-    { value: 'less_than', label: 'Less Than' },
-    { value: 'is_empty', label: 'Is Empty' },
-    { value: 'is_not_empty', label: 'Is Not Empty' }
+  // Registry fields first, then any extra columns the data carries
+  const registryFields = getEntityFieldNames(entity);
+  const availableFields = [
+    ...registryFields,
+    ...getFields(data).filter(field => !registryFields.includes(field))
   ];
 
-  // Actions
-  const actions = [
-    { value: 'flag', label: 'Flag for Review' },
-    { value: 'auto_correct', label: 'Auto Correct' },
-    { value: 'reject', label: 'Reject Record' },
-    { value: 'highlight', label: 'Highlight' },
-    { value: 'transform', label: 'Transform Value' }
-  ];
+  const entityRules = rules.filter(rule => rule.entity === entity);
+  const allocationContext = getAllocationContext(datasets, [...rules, ...allocationRules].map(rule => rule.id));
 
-  // Process natural language input to create rules
+  // Ask the AI backend for rules, falling back to keyword matching without an API key
   const processNaturalLanguage = async () => {
     if (!naturalLanguageInput.trim()) return;
 
     setIsProcessing(true);
-    
     try {
-      // Simple natural language processing
-      const input = naturalLanguageInput.toLowerCase();
-      const newRules: Rule[] = [];
-
-      // Extract field names
-      const fieldMatches = availableFields.filter(field => 
-        input.includes(field.toLowerCase())
-      );
-
-      // Extract operators
-      const operatorMap: Record<string, string> = {
-        'must be': 'equals',
-        'should be': 'equals',
-        'cannot be': 'not_equals',
-        'must contain': 'contains',
-        'cannot contain': 'not_contains',
-        'must start with': 'starts_with',
-        'must end with': 'ends_with',
-        'must be greater than': 'greater_than',
-        'must be less than': 'less_than',
-        'cannot be empty': 'is_not_empty',
-        'must be empty': 'is_empty'
-      };
-
-      let detectedOperator = 'equals';
-      for (const [phrase, operator] of Object.entries(operatorMap)) {
-        if (input.includes(phrase)) {
-          detectedOperator = operator;
-          break;
-        }
-      }
-
-      // Extract values (simple approach)
-      const valueMatch = input.match(/"([^"]+)"/);
-      const value = valueMatch ? valueMatch[1] : '';
-
-      // Create rules for each detected field
-      fieldMatches.forEach((field, index) => {
-        newRules.push({
-          id: Date.now().toString() + index,
-          name: `Rule ${rules.length + index + 1}`,
-          description: naturalLanguageInput,
-          field,
-          operator: detectedOperator,
-          value,
-          action: 'flag',
-          priority: rules.length + index + 1,
-          isActive: true
-        });
-      });
-
-      // Add the new rules
-      const updatedRules = [...rules, ...newRules];
-      setRules(updatedRules);
-      onRulesChange?.(updatedRules);
-      
-      // Clear input
-      setNaturalLanguageInput('');
-      
+      setSuggestions(await suggestRules({
+        text: naturalLanguageInput,
+        entity,
+        fields: availableFields,
+        context: allocationContext
+      }));
     } catch (error) {
       console.error('Error processing natural language:', error);
     } finally {
@@ -157,50 +130,75 @@ const RuleBuilder: React.FC<RuleBuilderProps> = ({
     }
   };
 
+  const addSuggestion = (suggestion: RuleSuggestion) => {
+    if (suggestion.type === 'allocation') {
+      onAllocationRulesChange?.([...allocationRules, suggestion.rule]);
+    } else {
+      onRulesChange?.([...rules, { ...suggestion.rule, priority: rules.length + 1 }]);
+    }
+    const remaining = suggestions?.suggestions.filter(candidate => candidate.rule.id !== suggestion.rule.id) || [];
+    if (remaining.length > 0 && suggestions) {
+      setSuggestions({ ...suggestions, suggestions: remaining });
+    } else {
+      setSuggestions(null);
+      setNaturalLanguageInput('');
+    }
+  };
+
+  // A rule template becomes a rule; a group template goes into the draft next to its finished conditions
+  const applyLibraryTemplate = (applied: AppliedTemplate) => {
+    if (applied.type === 'rule') {
+      onRulesChange?.([...rules, { ...applied.rule, priority: rules.length + 1 }]);
+      return;
+    }
+    setNewRule({
+      ...newRule,
+      condition: { ...newRule.condition, children: [...newRule.condition.children.filter(isConditionComplete), applied.condition] }
+    });
+  };
+
+  const saveTemplate = (template: RuleTemplate) => {
+    onRuleTemplatesChange?.([...ruleTemplates, template]);
+  };
+
+  const canAddRule = Boolean(newRule.name)
+    && isConditionComplete(newRule.condition)
+    && (!needsEffect(newRule.action) || isEffectComplete(newRule.effect));
+
   const addRule = () => {
-    if (!newRule.name || !newRule.field) return;
+    if (!canAddRule) return;
 
     const rule: Rule = {
       id: Date.now().toString(),
       name: newRule.name,
-      description: newRule.description || '',
-      field: newRule.field,
-      operator: newRule.operator || 'equals',
-      value: newRule.value || '',
-      action: newRule.action || 'flag',
-      priority: newRule.priority || 1,
-      isActive: newRule.isActive !== false
+      description: newRule.description,
+      entity,
+      condition: newRule.condition,
+      action: newRule.action,
+      effect: needsEffect(newRule.action)
+        ? { ...newRule.effect, operation: newRule.action === 'auto_correct' ? 'set' : newRule.effect.operation }
+        : undefined,
+      priority: newRule.priority,
+      isActive: true
     };
-
-    const updatedRules = [...rules, rule];
-    setRules(updatedRules);
-    onRulesChange?.(updatedRules);
+    onRulesChange?.([...rules, rule]);
 
     // Reset form
-    setNewRule({
-      name: '',
-      description: '',
-      field: '',
-      operator: 'equals',
-      value: '',
-      action: 'flag',
-      priority: rules.length + 1,
-      isActive: true
-    });
+    setNewRule(emptyDraft(rules.length + 2));
   };
 
   const deleteRule = (id: string) => {
-    const updatedRules = rules.filter(rule => rule.id !== id);
-    setRules(updatedRules);
-    onRulesChange?.(updatedRules);
+    onRulesChange?.(rules.filter(rule => rule.id !== id));
   };
 
   const toggleRule = (id: string) => {
-    const updatedRules = rules.map(rule => 
+    onRulesChange?.(rules.map(rule =>
       rule.id === id ? { ...rule, isActive: !rule.isActive } : rule
-    );
-    setRules(updatedRules);
-    onRulesChange?.(updatedRules);
+    ));
+  };
+
+  const countMatches = (rule: Rule) => {
+    return data.filter(row => evaluateCondition(rule.condition, row as Record<string, unknown>)).length;
   };
 
   if (!data || data.length === 0) {
@@ -230,7 +228,7 @@ const RuleBuilder: React.FC<RuleBuilderProps> = ({
           <Box sx={{ display: 'flex', gap: 1 }}>
             <TextField
               fullWidth
-              placeholder="e.g., 'Email field must contain @ symbol' or 'Phone numbers cannot be empty'"
+              placeholder={`e.g., 'Email must contain "@"' or 'Tasks T3 and T7 should always run together'`}
               value={naturalLanguageInput}
               onChange={(e) => setNaturalLanguageInput(e.target.value)}
               disabled={isProcessing}
@@ -241,9 +239,33 @@ const RuleBuilder: React.FC<RuleBuilderProps> = ({
               onClick={processNaturalLanguage}
               disabled={isProcessing || !naturalLanguageInput.trim()}
             >
-              {isProcessing ? 'Processing...' : 'Create Rule'}
+              {isProcessing ? 'Processing...' : 'Suggest Rules'}
             </Button>
           </Box>
+          {suggestions && (
+            <RuleSuggestions
+              result={suggestions}
+              onAdd={addSuggestion}
+              onDismiss={() => setSuggestions(null)}
+            />
+          )}
+        </Box>
+
+        <Divider sx={{ mb: 3 }} />
+
+        {/* Rule Library */}
+        <Typography variant="subtitle2" sx={{ mb: 2 }}>
+          Rule Library
+        </Typography>
+        <Box sx={{ mb: 3 }}>
+          <RuleLibrary
+            key={`library-${entity}`}
+            entity={entity}
+            fields={availableFields}
+            templates={ruleTemplates}
+            onTemplatesChange={onRuleTemplatesChange}
+            onApply={applyLibraryTemplate}
+          />
         </Box>
 
         <Divider sx={{ mb: 3 }} />
@@ -262,59 +284,85 @@ const RuleBuilder: React.FC<RuleBuilderProps> = ({
               onChange={(e) => setNewRule({ ...newRule, name: e.target.value })}
               size="small"
             />
-            <FormControl fullWidth size="small">
-              <InputLabel>Field</InputLabel>
-              <Select
-                value={newRule.field}
-                onChange={(e) => setNewRule({ ...newRule, field: e.target.value })}
-                label="Field"
-              >
-                {availableFields.map((field) => (
-                  <MenuItem key={field} value={field}>
-                    {field}
-                  </MenuItem>
-                ))}
-              </Select>
-            </FormControl>
-          </Box>
-          
-          <Box sx={{ display: 'flex', gap: 2 }}>
-            <FormControl fullWidth size="small">
-              <InputLabel>Operator</InputLabel>
-              <Select
-                value={newRule.operator}
-                onChange={(e) => setNewRule({ ...newRule, operator: e.target.value })}
-                label="Operator"
-              >
-                {operators.map((op) => (
-                  <MenuItem key={op.value} value={op.value}>
-                    {op.label}
-                  </MenuItem>
-                ))}
-              </Select>
-            </FormControl>
-            <TextField
-              fullWidth
-              label="Value"
-              value={newRule.value}
-              onChange={(e) => setNewRule({ ...newRule, value: e.target.value })}
-              size="small"
-            />
             <FormControl fullWidth size="small">
               <InputLabel>Action</InputLabel>
               <Select
                 value={newRule.action}
-                onChange={(e) => setNewRule({ ...newRule, action: e.target.value })}
+                onChange={(e) => setNewRule({ ...newRule, action: e.target.value as RuleAction })}
                 label="Action"
               >
-                {actions.map((action) => (
+                {ACTIONS.map((action) => (
                   <MenuItem key={action.value} value={action.value}>
                     {action.label}
                   </MenuItem>
                 ))}
               </Select>
             </FormControl>
+            <TextField
+              label="Priority"
+              type="number"
+              value={newRule.priority}
+              onChange={(e) => setNewRule({ ...newRule, priority: Number(e.target.value) || 1 })}
+              helperText="Lower runs first"
+              size="small"
+              sx={{ width: 140 }}
+            />
           </Box>
+
+          <ConditionGroupEditor
+            group={newRule.condition}
+            fields={availableFields}
+            onChange={(condition) => setNewRule({ ...newRule, condition })}
+            onSaveTemplate={onRuleTemplatesChange
+              ? (group) => saveTemplate(createGroupTemplate(group, entity, describeCondition(group)))
+              : undefined}
+            getValueHint={(field) => getFieldDefinition(entity, field)?.description}
+          />
+
+          {needsEffect(newRule.action) && (
+            <Box sx={{ display: 'flex', gap: 2 }}>
+              <FormControl fullWidth size="small">
+                <InputLabel>Target Field</InputLabel>
+                <Select
+                  value={newRule.effect.field}
+                  onChange={(e) => setNewRule({ ...newRule, effect: { ...newRule.effect, field: e.target.value } })}
+                  label="Target Field"
+                >
+                  {availableFields.map((field) => (
+                    <MenuItem key={field} value={field}>
+                      {field}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+              {newRule.action === 'transform' && (
+                <FormControl fullWidth size="small">
+                  <InputLabel>Operation</InputLabel>
+                  <Select
+                    value={newRule.effect.operation}
+                    onChange={(e) => setNewRule({ ...newRule, effect: { ...newRule.effect, operation: e.target.value as TransformOperation } })}
+                    label="Operation"
+                  >
+                    {TRANSFORM_OPERATIONS.map((operation) => (
+                      <MenuItem key={operation.value} value={operation.value}>
+                        {operation.label}
+                      </MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+              )}
+              {(newRule.action === 'auto_correct' || !VALUELESS_OPERATIONS.includes(newRule.effect.operation)) && (
+                <TextField
+                  fullWidth
+                  label={newRule.action === 'auto_correct' ? 'Corrected Value' : 'Value'}
+                  value={newRule.effect.value}
+                  onChange={(e) => setNewRule({ ...newRule, effect: { ...newRule.effect, value: e.target.value } })}
+                  helperText={newRule.effect.field ? getFieldDefinition(entity, newRule.effect.field)?.description : undefined}
+                  size="small"
+                />
+              )}
+            </Box>
+          )}
           
           <TextField
             fullWidth
@@ -327,7 +375,7 @@ const RuleBuilder: React.FC<RuleBuilderProps> = ({
           <Button
             variant="contained"
             onClick={addRule}
-            disabled={!newRule.name || !newRule.field}
+            disabled={!canAddRule}
             sx={{ alignSelf: 'flex-start' }}
           >
             Add Rule
@@ -335,13 +383,13 @@ const RuleBuilder: React.FC<RuleBuilderProps> = ({
         </Box>
 
         {/* Rules List */}
-        {rules.length > 0 && (
+        {entityRules.length > 0 && (
           <Box>
             <Typography variant="subtitle2" sx={{ mb: 1 }}>
-              Active Rules ({rules.filter(r => r.isActive).length}/{rules.length})
+              Active Rules ({entityRules.filter(r => r.isActive).length}/{entityRules.length})
             </Typography>
             <List dense>
-              {rules.map((rule) => (
+              {entityRules.map((rule) => (
                 <Box key={rule.id}>
                   <ListItem>
                     <span style={{ width: '100%' }}>
@@ -355,10 +403,13 @@ const RuleBuilder: React.FC<RuleBuilderProps> = ({
                       <Typography component="span" variant="body2" color="text.secondary">
                         {rule.description && rule.description.replace(/"/g, '&quot;')}
                       </Typography>
+                      <Typography component="span" variant="body2" sx={{ display: 'block', fontFamily: 'monospace', mt: 1 }}>
+                        {describeCondition(rule.condition)}
+                      </Typography>
                       <span style={{ display: 'flex', gap: 4, marginTop: 8 }}>
-                        <Chip label={rule.field} size="small" variant="outlined" />
-                        <Chip label={rule.operator} size="small" variant="outlined" />
-                        <Chip label={rule.action} size="small" variant="outlined" />
+                        <Chip label={ACTIONS.find(action => action.value === rule.action)?.label || rule.action} size="small" variant="outlined" />
+                        {rule.effect && <Chip label={describeEffect(rule.effect)} size="small" variant="outlined" />}
+                        <Chip label={`Matches ${countMatches(rule)} rows`} size="small" variant="outlined" />
                       </span>
                     </span>
                     <Box>
@@ -370,6 +421,15 @@ const RuleBuilder: React.FC<RuleBuilderProps> = ({
                       >
                         {rule.isActive ? 'Disable' : 'Enable'}
                       </Button>
+                      <Button
+                        size="small"
+                        onClick={() => saveTemplate(createRuleTemplate(rule))}
+                        disabled={!onRuleTemplatesChange}
+                        variant="outlined"
+                        sx={{ mr: 1 }}
+                      >
+                        Save as Template
+                      </Button>
                       <Button
                         size="small"
                         onClick={() => deleteRule(rule.id)}
@@ -384,14 +444,63 @@ const RuleBuilder: React.FC<RuleBuilderProps> = ({
                 </Box>
               ))}
             </List>
+
+            {/* Rule Engine */}
+            <Typography variant="subtitle2" sx={{ mt: 3, mb: 1 }}>
+              Run Rules
+            </Typography>
+            <RuleRunPanel
+              key={entity}
+              data={data}
+              entity={entity}
+              rules={rules}
+              onDataChange={onDataChange}
+            />
+
+            {/* Rule Sandbox */}
+            <Typography variant="subtitle2" sx={{ mt: 3, mb: 1 }}>
+              Test a Rule
+            </Typography>
+            <RuleSandbox
+              key={`sandbox-${entity}`}
+              data={data}
+              entityRules={entityRules}
+              fields={availableFields}
+              onRuleChange={onRulesChange ? (updated) => onRulesChange(rules.map(rule => rule.id === updated.id ? updated : rule)) : undefined}
+              getValueHint={(field) => getFieldDefinition(entity, field)?.description}
+            />
           </Box>
         )}
 
-        {rules.length === 0 && (
+        {entityRules.length === 0 && (
           <Alert severity="info">
-            No rules created yet. Use natural language or manual creation to add rules.
+            No {ENTITY_LABELS[entity].toLowerCase()} rules created yet. Use natural language or manual creation to add rules.
           </Alert>
         )}
+
+        <Divider sx={{ my: 3 }} />
+
+        {/* Allocation Rules */}
+        <Typography variant="subtitle2" sx={{ mb: 2 }}>
+          Allocation Rules
+        </Typography>
+        <AllocationRuleBuilder
+          allocationRules={allocationRules}
+          context={allocationContext}
+          onAllocationRulesChange={onAllocationRulesChange}
+        />
+
+        <Divider sx={{ my: 3 }} />
+
+        {/* Rule Analysis */}
+        <Typography variant="subtitle2" sx={{ mb: 2 }}>
+          Rule Analysis
+        </Typography>
+        <RuleAnalysisPanel
+          rules={rules}
+          allocationRules={allocationRules}
+          datasets={datasets}
+        />
       </CardContent>
     </Card>
   );
@@ -0,0 +1,201 @@
+import React, { useRef, useState } from 'react';
+import {
+  Box,
+  Button,
+  Chip,
+  FormControl,
+  InputLabel,
+  ListSubheader,
+  MenuItem,
+  Select,
+  TextField,
+  Typography,
+  Alert
+} from '@mui/material';
+import {
+  AppliedTemplate,
+  applyTemplate,
+  BUILT_IN_TEMPLATES,
+  buildRuleLibrary,
+  describeCondition,
+  getBindingProblems,
+  getTemplatesForEntity,
+  parseRuleLibrary,
+  RuleTemplate,
+  suggestBindings,
+  TemplateBindings
+} from '../lib/rules';
+import { downloadJson } from '../lib/exporters';
+import { EntityType } from '../lib/utils';
+
+interface RuleLibraryProps {
+  entity: EntityType;
+  // Columns of the active dataset, which column placeholders bind to
+  fields: string[];
+  // Templates the user saved; the built-ins are always listed
+  templates: RuleTemplate[];
+  onTemplatesChange?: (templates: RuleTemplate[]) => void;
+  onApply: (applied: AppliedTemplate) => void;
+}
+
+const RuleLibrary: React.FC<RuleLibraryProps> = ({
+  entity,
+  fields,
+  templates,
+  onTemplatesChange,
+  onApply
+}) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [selectedId, setSelectedId] = useState('');
+  const [bindings, setBindings] = useState<TemplateBindings>({});
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const builtIns = getTemplatesForEntity(BUILT_IN_TEMPLATES, entity);
+  const saved = getTemplatesForEntity(templates, entity);
+  const template = [...builtIns, ...saved].find(candidate => candidate.id === selectedId);
+  const problems = template ? getBindingProblems(template, bindings, fields) : [];
+
+  const selectTemplate = (id: string) => {
+    const next = [...builtIns, ...saved].find(candidate => candidate.id === id);
+    setSelectedId(id);
+    setBindings(next ? suggestBindings(next, fields) : {});
+  };
+
+  const apply = () => {
+    if (!template || problems.length > 0) return;
+    onApply(applyTemplate(template, bindings, entity));
+  };
+
+  const deleteTemplate = (id: string) => {
+    onTemplatesChange?.(templates.filter(candidate => candidate.id !== id));
+    if (id === selectedId) setSelectedId('');
+  };
+
+  // Shared templates replace saved ones with the same ID
+  const readFile = async (selected: File) => {
+    const parsed = parseRuleLibrary(await selected.text());
+    if (!parsed.ok) {
+      setImportError(`${selected.name}: ${parsed.error}`);
+      return;
+    }
+    setImportError(null);
+    const ids = new Set(parsed.templates.map(candidate => candidate.id));
+    onTemplatesChange?.([...templates.filter(candidate => !ids.has(candidate.id)), ...parsed.templates]);
+  };
+
+  const condition = template && (template.body.type === 'rule' ? template.body.rule.condition : template.body.condition);
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', gap: 1, alignItems: 'center', mb: 2 }}>
+        <FormControl size="small" sx={{ minWidth: 280 }}>
+          <InputLabel>Template</InputLabel>
+          <Select value={template ? template.id : ''} onChange={(e) => selectTemplate(e.target.value)} label="Template">
+            <ListSubheader>Built-in</ListSubheader>
+            {builtIns.map((candidate) => (
+              <MenuItem key={candidate.id} value={candidate.id}>
+                {candidate.name}
+              </MenuItem>
+            ))}
+            <ListSubheader>Saved</ListSubheader>
+            {saved.map((candidate) => (
+              <MenuItem key={candidate.id} value={candidate.id}>
+                {candidate.name}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        <Box sx={{ flex: 1 }} />
+        <Button
+          size="small"
+          variant="outlined"
+          onClick={() => downloadJson(buildRuleLibrary(templates), 'rule-library.json')}
+          disabled={templates.length === 0}
+        >
+          Export Library
+        </Button>
+        <Button size="small" variant="outlined" onClick={() => inputRef.current?.click()} disabled={!onTemplatesChange}>
+          Import Library
+        </Button>
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".json,application/json"
+          hidden
+          onChange={(e) => {
+            const selected = e.target.files?.[0];
+            e.target.value = '';
+            if (selected) readFile(selected);
+          }}
+        />
+      </Box>
+
+      {importError && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setImportError(null)}>
+          {importError}
+        </Alert>
+      )}
+
+      {template && condition && (
+        <Box>
+          <Box sx={{ display: 'flex', gap: 1, alignItems: 'center', mb: 1 }}>
+            <Chip label={template.body.type === 'rule' ? 'Rule' : 'Condition Group'} size="small" variant="outlined" />
+            {template.builtIn && <Chip label="Built-in" size="small" />}
+            <Typography variant="body2" color="text.secondary">
+              {template.description || describeCondition(condition)}
+            </Typography>
+          </Box>
+
+          {/* Column placeholders bind to this dataset's columns; value placeholders take any text */}
+          <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap', mb: 2 }}>
+            {template.placeholders.map((placeholder) => (
+              placeholder.type === 'column' ? (
+                <FormControl key={placeholder.key} size="small" sx={{ minWidth: 200 }}>
+                  <InputLabel>{placeholder.label}</InputLabel>
+                  <Select
+                    value={fields.includes(bindings[placeholder.key]) ? bindings[placeholder.key] : ''}
+                    onChange={(e) => setBindings({ ...bindings, [placeholder.key]: e.target.value })}
+                    label={placeholder.label}
+                  >
+                    {fields.map((field) => (
+                      <MenuItem key={field} value={field}>
+                        {field}
+                      </MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+              ) : (
+                <TextField
+                  key={placeholder.key}
+                  label={placeholder.label}
+                  value={bindings[placeholder.key] ?? ''}
+                  onChange={(e) => setBindings({ ...bindings, [placeholder.key]: e.target.value })}
+                  size="small"
+                />
+              )
+            ))}
+          </Box>
+
+          {problems.length > 0 && (
+            <Alert severity="warning" sx={{ mb: 2 }}>
+              {problems.join('; ')}
+            </Alert>
+          )}
+
+          <Box sx={{ display: 'flex', gap: 1 }}>
+            <Button variant="contained" onClick={apply} disabled={problems.length > 0}>
+              {template.body.type === 'rule' ? 'Add Rule' : 'Use in New Rule'}
+            </Button>
+            {!template.builtIn && (
+              <Button color="error" onClick={() => deleteTemplate(template.id)} disabled={!onTemplatesChange}>
+                Delete Template
+              </Button>
+            )}
+          </Box>
+        </Box>
+      )}
+    </Box>
+  );
+};
+
+export default RuleLibrary;
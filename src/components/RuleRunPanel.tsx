@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Button,
+  Chip,
+  List,
+  ListItem,
+  Typography,
+  Alert
+} from '@mui/material';
+import { ACTIONS, Rule, RuleRunResult, runRules } from '../lib/rules';
+import { EntityType } from '../lib/utils';
+
+interface RuleRunPanelProps {
+  data: unknown[];
+  entity: EntityType;
+  rules: Rule[];
+  // Apply mode writes the result back; without it only dry runs are possible
+  onDataChange?: (data: unknown[]) => void;
+}
+
+const formatValue = (value: unknown) => {
+  if (value !== null && typeof value === 'object') return JSON.stringify(value);
+  return String(value ?? '');
+};
+
+const formatRows = (rowIndexes: number[]) => {
+  if (rowIndexes.length === 0) return 'none';
+  const shown = rowIndexes.slice(0, 15).join(', ');
+  return rowIndexes.length > 15 ? `${shown} … (+${rowIndexes.length - 15})` : shown;
+};
+
+const RuleRunPanel: React.FC<RuleRunPanelProps> = ({
+  data,
+  entity,
+  rules,
+  onDataChange
+}) => {
+  const [result, setResult] = useState<RuleRunResult | null>(null);
+  const [applied, setApplied] = useState(false);
+
+  const activeCount = rules.filter(rule => rule.isActive && rule.entity === entity).length;
+  const ruleNames = new Map(rules.map(rule => [rule.id, rule.name]));
+
+  const run = (apply: boolean) => {
+    const outcome = runRules(rules, entity, data);
+    setResult(outcome);
+    setApplied(apply);
+    if (apply) onDataChange?.(outcome.rows);
+  };
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
+        <Typography variant="body2" color="text.secondary">
+          {activeCount} active rule{activeCount === 1 ? '' : 's'}, run in priority order.
+        </Typography>
+        <Box sx={{ display: 'flex', gap: 1 }}>
+          <Button variant="outlined" onClick={() => run(false)} disabled={activeCount === 0}>
+            Dry Run
+          </Button>
+          <Button variant="contained" onClick={() => run(true)} disabled={activeCount === 0 || !onDataChange}>
+            Apply Rules
+          </Button>
+        </Box>
+      </Box>
+
+      {result && (
+        <Box>
+          <Alert severity={applied ? 'success' : 'info'} sx={{ mb: 1 }}>
+            {applied
+              ? `Applied: ${result.changes.length} values changed and ${result.rejectedRows.length} rows removed.`
+              : `Dry run: ${result.changes.length} values would change and ${result.rejectedRows.length} rows would be rejected. Nothing was written.`}
+          </Alert>
+
+          <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', mb: 1 }}>
+            <Chip label={`Flagged: ${result.flaggedRows.length}`} size="small" variant="outlined" color="warning" />
+            <Chip label={`Highlighted: ${result.highlightedRows.length}`} size="small" variant="outlined" color="info" />
+            <Chip label={`Rejected: ${result.rejectedRows.length}`} size="small" variant="outlined" color="error" />
+            <Chip label={`Changed values: ${result.changes.length}`} size="small" variant="outlined" color="primary" />
+          </Box>
+
+          <List dense>
+            {result.matches.map((match) => (
+              <ListItem key={match.ruleId}>
+                <span style={{ width: '100%', display: 'flex', alignItems: 'center', gap: 8 }}>
+                  <Typography component="span" variant="body2" sx={{ flex: 1 }}>
+                    {match.ruleName}: rows {formatRows(match.rowIndexes)}
+                  </Typography>
+                  <Chip label={ACTIONS.find(action => action.value === match.action)?.label || match.action} size="small" variant="outlined" />
+                  <Chip label={`${match.rowIndexes.length} matched`} size="small" variant="outlined" />
+                </span>
+              </ListItem>
+            ))}
+          </List>
+
+          {result.changes.length > 0 && (
+            <Box sx={{ mt: 1 }}>
+              <Typography variant="subtitle2" sx={{ mb: 1 }}>
+                Changed Values
+              </Typography>
+              <List dense>
+                {result.changes.slice(0, 20).map((change, index) => (
+                  <ListItem key={`${change.ruleId}:${change.rowIndex}:${change.field}:${index}`}>
+                    <Typography variant="body2">
+                      Row {change.rowIndex} · {change.field}: &quot;{formatValue(change.before)}&quot; → &quot;{change.after}&quot; ({ruleNames.get(change.ruleId)})
+                    </Typography>
+                  </ListItem>
+                ))}
+                {result.changes.length > 20 && (
+                  <Typography variant="body2" color="text.secondary">
+                    ... and {result.changes.length - 20} more changes
+                  </Typography>
+                )}
+              </List>
+            </Box>
+          )}
+        </Box>
+      )}
+    </Box>
+  );
+};
+
+export default RuleRunPanel;
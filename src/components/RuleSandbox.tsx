@@ -0,0 +1,227 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Box,
+  Button,
+  Chip,
+  Divider,
+  FormControl,
+  FormControlLabel,
+  InputLabel,
+  List,
+  ListItem,
+  MenuItem,
+  Select,
+  Switch,
+  Typography,
+  Alert
+} from '@mui/material';
+import ConditionGroupEditor from './ConditionGroupEditor';
+import { displayValue } from '../lib/parsers';
+import {
+  ConditionGroup,
+  ConditionNode,
+  createTestCase,
+  describeCondition,
+  getRuleFields,
+  isConditionComplete,
+  previewRule,
+  Rule,
+  runTestCases
+} from '../lib/rules';
+
+interface RuleSandboxProps {
+  data: unknown[];
+  // Rules for the active entity only
+  entityRules: Rule[];
+  fields: string[];
+  onRuleChange?: (rule: Rule) => void;
+  getValueHint?: (field: string) => string | undefined;
+}
+
+const PREVIEW_LIMIT = 25;
+
+// The condition with each part coloured by whether it held for the row
+const renderTrace = (node: ConditionNode, trace: Record<string, boolean>, nested = false): React.ReactNode => {
+  if (node.type === 'condition') {
+    return (
+      <Chip
+        key={node.id}
+        label={describeCondition(node)}
+        size="small"
+        color={trace[node.id] ? 'success' : 'default'}
+        variant={trace[node.id] ? 'filled' : 'outlined'}
+      />
+    );
+  }
+  const parts = node.children.map((child, index) => (
+    <React.Fragment key={child.id}>
+      {index > 0 && <Typography component="span" variant="caption">{node.combinator.toUpperCase()}</Typography>}
+      {renderTrace(child, trace, true)}
+    </React.Fragment>
+  ));
+  if (!nested && !node.negate) return parts;
+  return (
+    <span key={node.id} style={{ display: 'inline-flex', alignItems: 'center', gap: 4 }}>
+      {node.negate && <Typography component="span" variant="caption">NOT</Typography>}
+      <Typography component="span" variant="caption">(</Typography>
+      {parts}
+      <Typography component="span" variant="caption">)</Typography>
+    </span>
+  );
+};
+
+const RuleSandbox: React.FC<RuleSandboxProps> = ({
+  data,
+  entityRules,
+  fields,
+  onRuleChange,
+  getValueHint
+}) => {
+  const [selectedId, setSelectedId] = useState('');
+  const [showAll, setShowAll] = useState(false);
+  // The condition as edited here; it reaches the live rule only once it is complete
+  const [draft, setDraft] = useState<{ ruleId: string; condition: ConditionGroup } | null>(null);
+
+  const liveRule = entityRules.find(candidate => candidate.id === selectedId) || entityRules[0];
+  const rule = useMemo(() => {
+    return liveRule && draft?.ruleId === liveRule.id ? { ...liveRule, condition: draft.condition } : liveRule;
+  }, [liveRule, draft]);
+  const complete = rule ? isConditionComplete(rule.condition) : true;
+
+  const preview = useMemo(() => rule ? previewRule(rule, data) : [], [rule, data]);
+  const testResults = useMemo(() => rule ? runTestCases(rule) : [], [rule]);
+
+  if (!rule || !liveRule) return null;
+
+  const ruleFields = getRuleFields(rule);
+  const matchCount = preview.filter(row => row.matched).length;
+  const shown = (showAll ? preview : preview.filter(row => row.matched)).slice(0, PREVIEW_LIMIT);
+  const pinned = new Set((rule.testCases || []).map(testCase => testCase.rowIndex));
+  const failing = testResults.filter(result => !result.passed).length;
+
+  const changeCondition = (condition: ConditionGroup) => {
+    if (onRuleChange && isConditionComplete(condition)) {
+      onRuleChange({ ...liveRule, condition });
+      setDraft(null);
+    } else {
+      setDraft({ ruleId: liveRule.id, condition });
+    }
+  };
+
+  const pinRow = (rowIndex: number, row: Record<string, unknown>) => {
+    onRuleChange?.({ ...rule, testCases: [...(rule.testCases || []), createTestCase(rule, rowIndex, row)] });
+  };
+
+  const unpin = (id: string) => {
+    onRuleChange?.({ ...liveRule, testCases: (liveRule.testCases || []).filter(testCase => testCase.id !== id) });
+  };
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', gap: 2, alignItems: 'center', mb: 2 }}>
+        <FormControl size="small" sx={{ minWidth: 240 }}>
+          <InputLabel>Rule</InputLabel>
+          <Select value={rule.id} onChange={(e) => { setSelectedId(e.target.value); setDraft(null); }} label="Rule">
+            {entityRules.map((candidate) => (
+              <MenuItem key={candidate.id} value={candidate.id}>
+                {candidate.name}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        <Chip label={`Matches ${matchCount} of ${data.length} rows`} size="small" color="primary" variant="outlined" />
+        <FormControlLabel
+          control={<Switch size="small" checked={showAll} onChange={(e) => setShowAll(e.target.checked)} />}
+          label="Show non-matching rows"
+        />
+      </Box>
+
+      {/* Editing here re-runs the preview and the pinned test cases */}
+      <Box sx={{ mb: 2 }}>
+        <ConditionGroupEditor
+          group={rule.condition}
+          fields={fields}
+          onChange={changeCondition}
+          getValueHint={getValueHint}
+        />
+      </Box>
+      {!complete && (
+        <Alert severity="warning" sx={{ mb: 2 }}>
+          Every condition needs a field, and a value unless it checks for empty. The rule keeps its last complete condition until then.
+        </Alert>
+      )}
+
+      <List dense>
+        {shown.map((entry) => (
+          <Box key={entry.rowIndex}>
+            <ListItem>
+              <span style={{ width: '100%' }}>
+                <span style={{ display: 'flex', alignItems: 'center', gap: 8, flexWrap: 'wrap' }}>
+                  <Typography component="span" variant="subtitle2">
+                    Row {entry.rowIndex}
+                  </Typography>
+                  <Chip label={entry.matched ? 'Match' : 'No match'} size="small" color={entry.matched ? 'success' : 'default'} />
+                  {renderTrace(rule.condition, entry.trace)}
+                </span>
+                <Typography component="span" variant="body2" color="text.secondary" sx={{ display: 'block', mt: 0.5 }}>
+                  {ruleFields.map(field => `${field}: ${displayValue(entry.row, field) || '—'}`).join(' · ')}
+                </Typography>
+                {entry.after !== undefined && (
+                  <Typography component="span" variant="body2" sx={{ display: 'block' }}>
+                    {rule.effect?.field}: &quot;{entry.before}&quot; → &quot;{entry.after}&quot;
+                  </Typography>
+                )}
+              </span>
+              <Button
+                size="small"
+                variant="outlined"
+                onClick={() => pinRow(entry.rowIndex, entry.row)}
+                disabled={!onRuleChange || !complete || pinned.has(entry.rowIndex)}
+              >
+                {pinned.has(entry.rowIndex) ? 'Pinned' : 'Pin as Test'}
+              </Button>
+            </ListItem>
+            <Divider />
+          </Box>
+        ))}
+        {shown.length === 0 && (
+          <Typography variant="body2" color="text.secondary">
+            No rows match this rule.
+          </Typography>
+        )}
+      </List>
+
+      <Typography variant="subtitle2" sx={{ mt: 2, mb: 1 }}>
+        Test Cases
+      </Typography>
+      {testResults.length === 0 ? (
+        <Alert severity="info">
+          Pin sample rows to keep them as test cases; they are re-checked every time the rule changes.
+        </Alert>
+      ) : (
+        <>
+          <Alert severity={failing > 0 ? 'error' : 'success'} sx={{ mb: 1 }}>
+            {failing > 0 ? `${failing} of ${testResults.length} test cases fail.` : `All ${testResults.length} test cases pass.`}
+          </Alert>
+          <List dense>
+            {testResults.map((result) => (
+              <ListItem key={result.testCase.id}>
+                <span style={{ width: '100%', display: 'flex', alignItems: 'center', gap: 8 }}>
+                  <Chip label={result.passed ? 'Pass' : 'Fail'} size="small" color={result.passed ? 'success' : 'error'} />
+                  <Typography component="span" variant="body2" sx={{ flex: 1 }}>
+                    Row {result.testCase.rowIndex}: {result.message}
+                  </Typography>
+                  <Button size="small" color="error" onClick={() => unpin(result.testCase.id)} disabled={!onRuleChange}>
+                    Remove
+                  </Button>
+                </span>
+              </ListItem>
+            ))}
+          </List>
+        </>
+      )}
+    </Box>
+  );
+};
+
+export default RuleSandbox;
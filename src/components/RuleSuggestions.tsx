@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Button,
+  Chip,
+  List,
+  ListItem,
+  Typography,
+  Alert
+} from '@mui/material';
+import { MIN_CONFIDENCE, RuleSuggestion, RuleSuggestionResult } from '../lib/ai';
+import { ACTIONS, describeAllocationRule, describeCondition, describeEffect } from '../lib/rules';
+
+interface RuleSuggestionsProps {
+  result: RuleSuggestionResult;
+  onAdd: (suggestion: RuleSuggestion) => void;
+  onDismiss: () => void;
+}
+
+const SOURCE_LABELS: Record<RuleSuggestionResult['source'], string> = {
+  ai: 'AI',
+  heuristic: 'Keyword Match',
+  mock: 'Mock Provider'
+};
+
+const getConfidenceColor = (confidence: number) => {
+  if (confidence >= 0.8) return 'success';
+  if (confidence >= MIN_CONFIDENCE) return 'warning';
+  return 'error';
+};
+
+const describeSuggestion = (suggestion: RuleSuggestion) => {
+  if (suggestion.type === 'allocation') return describeAllocationRule(suggestion.rule);
+  const { rule } = suggestion;
+  const action = ACTIONS.find(candidate => candidate.value === rule.action)?.label || rule.action;
+  return `${action} when ${describeCondition(rule.condition)}${rule.effect ? `, then ${describeEffect(rule.effect)}` : ''}`;
+};
+
+const RuleSuggestions: React.FC<RuleSuggestionsProps> = ({
+  result,
+  onAdd,
+  onDismiss
+}) => {
+  // The result whose question the user has answered; a new result asks again
+  const [confirmed, setConfirmed] = useState<RuleSuggestionResult | null>(null);
+  const pending = Boolean(result.question) && confirmed !== result;
+
+  return (
+    <Box sx={{ mt: 2 }}>
+      <Box sx={{ display: 'flex', gap: 1, alignItems: 'center', mb: 1 }}>
+        <Chip label={SOURCE_LABELS[result.source]} size="small" variant="outlined" />
+        <Chip
+          label={`Confidence ${Math.round(result.confidence * 100)}%`}
+          size="small"
+          color={getConfidenceColor(result.confidence)}
+        />
+        <Box sx={{ flex: 1 }} />
+        <Button size="small" onClick={onDismiss}>
+          Dismiss
+        </Button>
+      </Box>
+
+      {result.source === 'heuristic' && (
+        <Alert severity="info" sx={{ mb: 1 }}>
+          No AI backend is configured, so the rule was read by keyword matching.
+        </Alert>
+      )}
+      {result.question && (
+        <Alert
+          severity="warning"
+          sx={{ mb: 1 }}
+          action={pending && result.suggestions.length > 0 && (
+            <Button color="inherit" size="small" onClick={() => setConfirmed(result)}>
+              These Are Right
+            </Button>
+          )}
+        >
+          {result.question}
+          {pending && result.suggestions.length > 0 && ' Rephrase the request, or confirm the suggestions to add them.'}
+        </Alert>
+      )}
+      {result.warnings.map((warning, index) => (
+        <Alert key={index} severity="error" sx={{ mb: 1 }}>
+          {warning}
+        </Alert>
+      ))}
+
+      <List dense>
+        {result.suggestions.map((suggestion) => (
+          <ListItem key={suggestion.rule.id}>
+            <span style={{ width: '100%' }}>
+              <span style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+                <Typography component="span" variant="subtitle2">
+                  {suggestion.rule.name}
+                </Typography>
+                <Chip label={suggestion.type === 'allocation' ? 'Allocation Rule' : 'Field Rule'} size="small" variant="outlined" />
+              </span>
+              <Typography component="span" variant="body2" color="text.secondary" sx={{ display: 'block' }}>
+                {describeSuggestion(suggestion)}
+              </Typography>
+            </span>
+            <Button size="small" variant="outlined" onClick={() => onAdd(suggestion)} disabled={pending}>
+              Add
+            </Button>
+          </ListItem>
+        ))}
+      </List>
+    </Box>
+  );
+};
+
+export default RuleSuggestions;
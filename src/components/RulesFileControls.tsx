@@ -0,0 +1,128 @@
+import React, { useRef, useState } from 'react';
+import {
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  List,
+  ListItem,
+  Typography,
+  Alert
+} from '@mui/material';
+import {
+  AllocationRule,
+  buildRulesFile,
+  checkRulesFileAgainstData,
+  parseRulesFile,
+  PrioritySettings,
+  Rule,
+  RulesFile
+} from '../lib/rules';
+import { EntityDatasets } from '../lib/validators';
+import { downloadJson } from '../lib/exporters';
+
+interface RulesFileControlsProps {
+  rules: Rule[];
+  allocationRules: AllocationRule[];
+  priorities: PrioritySettings;
+  datasets: EntityDatasets;
+  // Replaces the rules, allocation rules and priorities with the file's
+  onImport: (file: RulesFile) => void;
+}
+
+interface ImportReport {
+  fileName: string;
+  file: RulesFile | null;
+  errors: string[];
+  problems: string[];
+}
+
+const RulesFileControls: React.FC<RulesFileControlsProps> = ({
+  rules,
+  allocationRules,
+  priorities,
+  datasets,
+  onImport
+}) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [report, setReport] = useState<ImportReport | null>(null);
+
+  const readFile = async (selected: File) => {
+    const parsed = parseRulesFile(await selected.text());
+    if (!parsed.ok) {
+      setReport({ fileName: selected.name, file: null, errors: parsed.errors, problems: [] });
+      return;
+    }
+    const problems = checkRulesFileAgainstData(parsed.file, datasets);
+    if (problems.length === 0) {
+      onImport(parsed.file);
+      return;
+    }
+    setReport({ fileName: selected.name, file: parsed.file, errors: [], problems });
+  };
+
+  const confirm = () => {
+    if (report?.file) onImport(report.file);
+    setReport(null);
+  };
+
+  return (
+    <>
+      <Button
+        variant="outlined"
+        onClick={() => downloadJson(buildRulesFile(rules, allocationRules, priorities), 'rules.json')}
+      >
+        Export rules.json
+      </Button>
+      <Button variant="outlined" onClick={() => inputRef.current?.click()}>
+        Import rules.json
+      </Button>
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".json,application/json"
+        hidden
+        onChange={(e) => {
+          const selected = e.target.files?.[0];
+          e.target.value = '';
+          if (selected) readFile(selected);
+        }}
+      />
+
+      {report && (
+        <Dialog open onClose={() => setReport(null)} maxWidth="md" fullWidth>
+          <DialogTitle>Import {report.fileName}</DialogTitle>
+          <DialogContent>
+            {report.errors.length > 0 ? (
+              <Alert severity="error" sx={{ mb: 1 }}>
+                The file is not a valid rules.json, so nothing was imported.
+              </Alert>
+            ) : (
+              <Alert severity="warning" sx={{ mb: 1 }}>
+                The file is valid, but it refers to data that is not loaded. Rules that use missing fields will not match anything.
+              </Alert>
+            )}
+            <List dense>
+              {[...report.errors, ...report.problems].slice(0, 50).map((message, index) => (
+                <ListItem key={index}>
+                  <Typography variant="body2">{message}</Typography>
+                </ListItem>
+              ))}
+            </List>
+          </DialogContent>
+          <DialogActions>
+            <Button onClick={() => setReport(null)}>{report.file ? 'Cancel' : 'Close'}</Button>
+            {report.file && (
+              <Button variant="contained" onClick={confirm}>
+                Import Anyway
+              </Button>
+            )}
+          </DialogActions>
+        </Dialog>
+      )}
+    </>
+  );
+};
+
+export default RulesFileControls;
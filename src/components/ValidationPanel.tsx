@@ -1,4 +1,4 @@
-import React, { useState, useMemo } from 'react';
+import React, { useMemo } from 'react';
 import { 
   Box, 
   Typography, 
@@ -9,101 +9,110 @@ import {
   ListItem, 
   Alert,
   Button,
-  Divider
+  Divider,
+  Link,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Select
 } from '@mui/material';
-import { z } from 'zod';
+import {
+  CapacityAnalysis,
+  CapacityIssue,
+  countBySeverity,
+  describeReference,
+  FixLogEntry,
+  getEntitySchema,
+  getFieldKinds,
+  ReferenceIssue,
+  RowReference,
+  SuggestedFix,
+  suggestFixes,
+  VALIDATION_CHECKS,
+  VALIDATION_PROFILES,
+  ValidationError,
+  ValidationProfile,
+  ValidationSeverity
+} from '../lib/validators';
+import { EntityType } from '../lib/utils';
+import DuplicateReview from './DuplicateReview';
+import AutoFixPanel from './AutoFixPanel';
 
-interface ValidationError {
-  field: string;
-  message: string;
-  value: unknown;
-  rowIndex: number;
-}
+type CrossDatasetIssue = ReferenceIssue | CapacityIssue;
 
 interface ValidationPanelProps {
   data: unknown[];
   title: string;
-  onValidationComplete?: (errors: ValidationError[]) => void;
+  entity: EntityType;
+  // Kept current by page.tsx, which re-validates changed rows on every data change.
+  // Severities already follow the active profile.
+  errors: ValidationError[];
+  profile: ValidationProfile;
+  onProfileChange?: (profileId: string) => void;
+  // Rows re-checked by the last change, for the live status line
+  checkedRows?: number;
+  // Reference and capacity checks across all three datasets, kept current by page.tsx like errors
+  // and with the profile applied, so they match what blocks export
+  crossDatasetIssues?: CrossDatasetIssue[];
+  capacity?: CapacityAnalysis;
+  onNavigate?: (reference: RowReference) => void;
+  onDataChange?: (data: unknown[]) => void;
+  // Accepted auto-fixes, newest first; page.tsx owns the log so it survives tab switches
+  fixLog?: FixLogEntry[];
+  onApplyFixes?: (fixes: SuggestedFix[]) => void;
+  onUndoFixes?: (entry: FixLogEntry) => number;
 }
 
+const CROSS_DATASET_LABELS: Record<CrossDatasetIssue['check'], string> = {
+  unknown_task: 'Requested tasks that do not exist',
+  unmatched_skill: 'Required skills no worker has',
+  unstaffed_phase: 'Preferred phases with no available worker',
+  phase_overload: 'Phases where task demand exceeds worker capacity',
+  worker_overcommitted: 'Workers with MaxLoadPerPhase above their slots',
+};
+
+const SEVERITY_ORDER: ValidationSeverity[] = ['error', 'warning', 'info'];
+
+const worstSeverity = (issues: { severity: ValidationSeverity }[]) => {
+  return SEVERITY_ORDER.find(severity => issues.some(issue => issue.severity === severity)) || 'info';
+};
+
+const getSeverityColor = (severity: ValidationSeverity) => {
+  switch (severity) {
+    case 'error': return 'error';
+    case 'warning': return 'warning';
+    default: return 'info';
+  }
+};
+
 const ValidationPanel: React.FC<ValidationPanelProps> = ({ 
   data, 
   title, 
-  onValidationComplete 
+  entity,
+  errors: validationErrors,
+  profile,
+  onProfileChange,
+  checkedRows,
+  crossDatasetIssues,
+  capacity,
+  onNavigate,
+  onDataChange,
+  fixLog = [],
+  onApplyFixes,
+  onUndoFixes
 }) => {
-  const [validationErrors, setValidationErrors] = useState<ValidationError[]>([]);
-  const [isValidating, setIsValidating] = useState(false);
-
-  // Common validation schemas
-  const commonSchemas = {
-    email: z.string().email('Invalid email format'),
-    phone: z.string().regex(/^[\+]?[1-9][\d]{0,15}$/, 'Invalid phone number'),
-    date: z.string().refine((val) => !isNaN(Date.parse(val)), 'Invalid date format'),
-    number: z.number().or(z.string().transform((val) => parseFloat(val))),
-    required: z.string().min(1, 'This field is required'),
-  };
-
-  // Generate validation schema based on data structure
-  const generateSchema = (sampleRow: Record<string, unknown>) => {
-    const schemaFields: Record<string, z.ZodTypeAny> = {};
-    
-    Object.keys(sampleRow).forEach((key) => {
-      const value = sampleRow[key];
-      const lowerKey = key.toLowerCase();
-      
-      // Auto-detect field types based on content and field name
-      if (lowerKey.includes('email')) {
-        schemaFields[key] = commonSchemas.email.optional();
-      } else if (lowerKey.includes('phone') || lowerKey.includes('mobile')) {
-        schemaFields[key] = commonSchemas.phone.optional();
-      } else if (lowerKey.includes('date')) {
-        schemaFields[key] = commonSchemas.date.optional();
-      } else if (typeof value === 'number' || !isNaN(Number(value))) {
-        schemaFields[key] = commonSchemas.number.optional();
-      } else {
-        schemaFields[key] = commonSchemas.required.optional();
-      }
-    });
-    
-    return z.object(schemaFields);
-  };
+  const fixes = useMemo(() => suggestFixes(entity, data || [], getFieldKinds(entity), getEntitySchema(entity).primaryKey), [entity, data]);
 
-  const validateData = () => {
-    if (!data || data.length === 0) return;
-    
-    setIsValidating(true);
-    const errors: ValidationError[] = [];
-    
-    try {
-      const schema = generateSchema(data[0] as Record<string, unknown>);
-      
-      data.forEach((row, index) => {
-        const result = schema.safeParse(row as Record<string, unknown>);
-        if (!result.success) {
-          result.error.issues.forEach((issue) => {
-            errors.push({
-              field: issue.path.join('.'),
-              message: issue.message,
-              value: (row as Record<string, unknown>)[issue.path[0]],
-              rowIndex: index + 1,
-            });
-          });
-        }
-      });
-    } catch (error) {
-      console.error('Validation error:', error);
-    }
-    
-    setValidationErrors(errors);
-    onValidationComplete?.(errors);
-    setIsValidating(false);
-  };
+  const fixesByCell = useMemo(() => {
+    return new Map(fixes.map(fix => [`${fix.rowIndex}:${fix.field}`, fix]));
+  }, [fixes]);
 
   const validationStats = useMemo(() => {
     if (!data) return null;
     
     const totalRows = data.length;
-    const errorRows = new Set(validationErrors.map(e => e.rowIndex)).size;
+    // Only error-severity issues make a row invalid; warnings and info are advisory
+    const errorRows = new Set(validationErrors.filter(e => e.rowIndex > 0 && e.severity === 'error').map(e => e.rowIndex)).size;
     const validRows = totalRows - errorRows;
     const errorCount = validationErrors.length;
     
@@ -112,6 +121,7 @@ const ValidationPanel: React.FC<ValidationPanelProps> = ({
       validRows,
       errorRows,
       errorCount,
+      severities: countBySeverity(validationErrors),
       fieldsWithErrors: new Set(validationErrors.map(e => e.field)).size,
     };
   }, [data, validationErrors]);
@@ -127,6 +137,20 @@ const ValidationPanel: React.FC<ValidationPanelProps> = ({
     return grouped;
   }, [validationErrors]);
 
+  const groupedCrossDatasetIssues = useMemo(() => {
+    const grouped: Partial<Record<CrossDatasetIssue['check'], CrossDatasetIssue[]>> = {};
+    (crossDatasetIssues || []).forEach(issue => {
+      grouped[issue.check] = [...(grouped[issue.check] || []), issue];
+    });
+    return grouped;
+  }, [crossDatasetIssues]);
+
+  const renderReference = (reference: RowReference) => onNavigate ? (
+    <Link component="button" variant="body2" onClick={() => onNavigate(reference)}>
+      {describeReference(reference)}
+    </Link>
+  ) : describeReference(reference);
+
   if (!data || data.length === 0) {
     return (
       <Card>
@@ -144,13 +168,46 @@ const ValidationPanel: React.FC<ValidationPanelProps> = ({
       <CardContent>
         <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
           <Typography variant="h6">{title} Validation</Typography>
-          <Button 
-            variant="contained" 
-            onClick={validateData}
-            disabled={isValidating}
-          >
-            {isValidating ? 'Validating...' : 'Validate Data'}
-          </Button>
+          <span style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+            {checkedRows !== undefined && (
+              <Typography variant="body2" color="text.secondary">
+                Re-checked {checkedRows} changed row{checkedRows === 1 ? '' : 's'}
+              </Typography>
+            )}
+            <Chip label="Live" size="small" color="success" variant="outlined" />
+          </span>
+        </Box>
+
+        <Box sx={{ mb: 2 }}>
+          <FormControl size="small" sx={{ minWidth: 200, mb: 1 }}>
+            <InputLabel>Validation Profile</InputLabel>
+            <Select
+              value={profile.id}
+              onChange={(e) => onProfileChange?.(e.target.value)}
+              label="Validation Profile"
+              disabled={!onProfileChange}
+            >
+              {VALIDATION_PROFILES.map((option) => (
+                <MenuItem key={option.id} value={option.id}>
+                  {option.name}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <Typography variant="body2" color="text.secondary">
+            {profile.description} {profile.blockExportOnErrors ? 'Errors block export.' : 'Export is allowed with errors.'}
+          </Typography>
+          <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', mt: 1 }}>
+            {VALIDATION_CHECKS.map(({ check, label }) => (
+              <Chip
+                key={check}
+                label={`${label}: ${profile.severities[check]}`}
+                size="small"
+                color={getSeverityColor(profile.severities[check])}
+                variant="outlined"
+              />
+            ))}
+          </Box>
         </Box>
 
         {validationStats && (
@@ -172,18 +229,23 @@ const ValidationPanel: React.FC<ValidationPanelProps> = ({
                 size="small" 
               />
               <Chip 
-                label={`Issues: ${validationStats.errorCount}`} 
+                label={`Warnings: ${validationStats.severities.warning}`} 
                 color="warning" 
                 size="small" 
               />
+              <Chip 
+                label={`Info: ${validationStats.severities.info}`} 
+                color="info" 
+                size="small" 
+              />
             </Box>
           </Box>
         )}
 
         {validationErrors.length > 0 ? (
           <Box>
-            <Typography variant="subtitle2" color="error" sx={{ mb: 1 }}>
-              Validation Errors ({validationErrors.length} issues found)
+            <Typography variant="subtitle2" color={getSeverityColor(worstSeverity(validationErrors))} sx={{ mb: 1 }}>
+              Validation Issues ({validationErrors.length} issues found)
             </Typography>
             <List dense>
               {Object.entries(groupedErrors).map(([field, errors]) => (
@@ -191,19 +253,35 @@ const ValidationPanel: React.FC<ValidationPanelProps> = ({
                   <ListItem>
                     <span style={{ width: '100%' }}>
                       <span style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
-                        <Typography component="span" variant="subtitle2" color="error">
+                        <Typography component="span" variant="subtitle2" color={getSeverityColor(worstSeverity(errors))}>
                           {field}
                         </Typography>
-                        <Chip label={errors.length} size="small" color="error" />
+                        <Chip label={errors.length} size="small" color={getSeverityColor(worstSeverity(errors))} />
                       </span>
                       {errors.slice(0, 3).map((error, index) => (
                         <Typography key={index} component="span" variant="body2" color="text.secondary" style={{ display: 'block' }}>
-                          Row {error.rowIndex}: {error.message} (Value: &quot;{String(error.value)}&quot;)
+                          <Chip label={error.severity} size="small" color={getSeverityColor(error.severity)} variant="outlined" sx={{ mr: 1 }} />
+                          {error.rowIndex > 0
+                            ? <>{onNavigate ? (
+                                <Link component="button" variant="body2" onClick={() => onNavigate({ entity, rowIndex: error.rowIndex, field: error.field })}>
+                                  Row {error.rowIndex}
+                                </Link>
+                              ) : `Row ${error.rowIndex}`}: {error.message} (Value: &quot;{String(error.value ?? '')}&quot;)</>
+                            : error.message}
+                          {onApplyFixes && fixesByCell.has(`${error.rowIndex}:${error.field}`) && (
+                            <Button
+                              size="small"
+                              sx={{ ml: 1 }}
+                              onClick={() => onApplyFixes([fixesByCell.get(`${error.rowIndex}:${error.field}`) as SuggestedFix])}
+                            >
+                              Fix
+                            </Button>
+                          )}
                         </Typography>
                       ))}
                       {errors.length > 3 && (
                         <Typography component="span" variant="body2" color="text.secondary" style={{ display: 'block' }}>
-                          ... and {errors.length - 3} more errors
+                          ... and {errors.length - 3} more issues
                         </Typography>
                       )}
                     </span>
@@ -218,6 +296,87 @@ const ValidationPanel: React.FC<ValidationPanelProps> = ({
             All data passed validation! No errors found.
           </Alert>
         ) : null}
+
+        <Box sx={{ mt: 3 }}>
+          <Divider sx={{ mb: 2 }} />
+          <Typography variant="subtitle1" sx={{ mb: 1 }}>Suggested Fixes</Typography>
+          <AutoFixPanel fixes={fixes} fixLog={fixLog} onApplyFixes={onApplyFixes} onUndoFixes={onUndoFixes} />
+        </Box>
+
+        <Box sx={{ mt: 3 }}>
+          <Divider sx={{ mb: 2 }} />
+          <Typography variant="subtitle1" sx={{ mb: 1 }}>Duplicate Records</Typography>
+          <DuplicateReview data={data} entity={entity} onDataChange={onDataChange} />
+        </Box>
+
+        {crossDatasetIssues && (
+          <Box sx={{ mt: 3 }}>
+            <Divider sx={{ mb: 2 }} />
+            <Typography variant="subtitle1" sx={{ mb: 1 }}>Cross-Dataset Checks</Typography>
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+              Checks requested tasks, required skills and preferred phases across clients, workers and tasks,
+              and compares each phase&apos;s task demand (Duration for every preferred phase) with worker capacity (MaxLoadPerPhase for every available slot).
+            </Typography>
+
+            {capacity && capacity.phases.length > 0 && (
+              <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', mb: 1 }}>
+                {capacity.phases.map((entry) => (
+                  <Chip
+                    key={entry.phase}
+                    label={`Phase ${entry.phase}: ${entry.demand} needed / ${entry.capacity} available`}
+                    size="small"
+                    color={entry.demand > entry.capacity ? 'error' : 'success'}
+                    variant="outlined"
+                  />
+                ))}
+              </Box>
+            )}
+
+            {crossDatasetIssues.length > 0 && (
+              <List dense>
+                {Object.entries(groupedCrossDatasetIssues).map(([check, issues]) => (
+                  <Box key={check}>
+                    <ListItem>
+                      <span style={{ width: '100%' }}>
+                        <span style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+                          <Typography component="span" variant="subtitle2" color={getSeverityColor(issues[0].severity)}>
+                            {CROSS_DATASET_LABELS[check as CrossDatasetIssue['check']]}
+                          </Typography>
+                          <Chip label={issues.length} size="small" color={getSeverityColor(issues[0].severity)} />
+                        </span>
+                        {issues.slice(0, 10).map((issue, index) => (
+                          <Typography key={index} component="span" variant="body2" color="text.secondary" style={{ display: 'block' }}>
+                            {renderReference(issue)}: {issue.message}
+                            {issue.related.length > 0 && (
+                              <> (see {issue.related.slice(0, 5).map((related, i) => (
+                                <React.Fragment key={`${related.entity}-${related.rowIndex}`}>
+                                  {i > 0 && ', '}
+                                  {renderReference(related)}
+                                </React.Fragment>
+                              ))}{issue.related.length > 5 && ` and ${issue.related.length - 5} more`})</>
+                            )}
+                          </Typography>
+                        ))}
+                        {issues.length > 10 && (
+                          <Typography component="span" variant="body2" color="text.secondary" style={{ display: 'block' }}>
+                            ... and {issues.length - 10} more
+                          </Typography>
+                        )}
+                      </span>
+                    </ListItem>
+                    <Divider />
+                  </Box>
+                ))}
+              </List>
+            )}
+
+            {crossDatasetIssues.length === 0 && (
+              <Alert severity="success">
+                All references between the loaded datasets resolve and every phase has enough capacity.
+              </Alert>
+            )}
+          </Box>
+        )}
       </CardContent>
     </Card>
   );
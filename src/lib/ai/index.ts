@@ -0,0 +1,30 @@
+import { EntityType } from '../utils';
+
+export interface HeaderMappingRequest {
+  entity: EntityType;
+  headers: string[];
+  fields: string[];
+  samples: unknown[];
+}
+
+// Raw header -> canonical field, or null when the model found no match
+export type HeaderMappingSuggestion = Record<string, string | null>;
+
+// Ask the AI backend to map headers the fuzzy matcher could not place.
+// Returns null when no API key is configured or the request fails.
+export const suggestHeaderMapping = async (request: HeaderMappingRequest): Promise<HeaderMappingSuggestion | null> => {
+  try {
+    const response = await fetch('/api/ai/header-mapping', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(request),
+    });
+    if (!response.ok) return null;
+    const body = await response.json();
+    return body.mapping ?? null;
+  } catch {
+    return null;
+  }
+};
+
+export * from './rules';
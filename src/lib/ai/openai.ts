@@ -0,0 +1,9 @@
+import OpenAI from 'openai';
+
+// Server-only: the API key never reaches the browser
+export const AI_MODEL = process.env.OPENAI_MODEL || 'gpt-4o-mini';
+
+export const getOpenAIClient = (): OpenAI | null => {
+  const apiKey = process.env.OPENAI_API_KEY;
+  return apiKey ? new OpenAI({ apiKey }) : null;
+};
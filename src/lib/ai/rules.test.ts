@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import { createMockRuleProvider, MIN_CONFIDENCE, RuleParseRequest, suggestRules } from './rules';
+
+const request: RuleParseRequest = {
+  text: 'Clients in group VIP must have priority 5',
+  entity: 'clients',
+  fields: ['ClientID', 'GroupTag', 'PriorityLevel'],
+  context: { taskIds: ['T1', 'T2'], clientGroups: ['VIP'], workerGroups: [], phases: [1, 2, 3], ruleIds: [] },
+};
+
+const group = (field: string, value = 'VIP') => ({
+  type: 'group',
+  combinator: 'and',
+  children: [{ type: 'condition', field, operator: 'equals', value }],
+});
+
+const suggest = (output: unknown) => suggestRules(request, [createMockRuleProvider(() => output)]);
+
+describe('validateRuleOutput through the mock provider', () => {
+  it('keeps valid field rules and fills in IDs and the entity', async () => {
+    const result = await suggest({
+      confidence: 0.9,
+      rules: [{ type: 'field', name: 'VIP check', action: 'flag', condition: group('GroupTag') }],
+    });
+    expect(result.source).toBe('mock');
+    expect(result.warnings).toEqual([]);
+    expect(result.confidence).toBe(0.9);
+    expect(result.question).toBeUndefined();
+    expect(result.suggestions).toHaveLength(1);
+    const [suggestion] = result.suggestions;
+    expect(suggestion.type).toBe('field');
+    expect(suggestion.rule.id).toBeTruthy();
+    if (suggestion.type === 'field') {
+      expect(suggestion.rule.entity).toBe('clients');
+      expect(suggestion.rule.condition.children[0].id).toBeTruthy();
+    }
+  });
+
+  it('drops suggestions that fail the schema and clamps the confidence', async () => {
+    const result = await suggest({
+      confidence: 0.95,
+      rules: [
+        { type: 'field', name: 'No field', action: 'flag', condition: group('') },
+        { type: 'field', name: 'No effect', action: 'auto_correct', condition: group('GroupTag') },
+        { type: 'field', name: 'Kept', action: 'highlight', condition: group('GroupTag') },
+      ],
+    });
+    expect(result.suggestions.map(suggestion => suggestion.rule.name)).toEqual(['Kept']);
+    expect(result.warnings).toHaveLength(2);
+    expect(result.warnings[0]).toMatch(/^Suggestion 1 was dropped/);
+    expect(result.warnings[1]).toMatch(/^Suggestion 2 was dropped: effect/);
+    expect(result.confidence).toBeLessThan(MIN_CONFIDENCE);
+    expect(result.question).toBeTruthy();
+  });
+
+  it('warns about columns the data does not have, including the effect column', async () => {
+    const result = await suggest({
+      confidence: 0.9,
+      rules: [{
+        type: 'field',
+        name: 'Fix region',
+        action: 'transform',
+        condition: group('Region', 'eu'),
+        effect: { field: 'Country', operation: 'uppercase' },
+      }],
+    });
+    expect(result.suggestions).toHaveLength(1);
+    expect(result.warnings).toEqual(['Fix region uses columns the data does not have: Region, Country']);
+    expect(result.confidence).toBe(MIN_CONFIDENCE - 0.1);
+  });
+
+  it('strips effects from actions that do not write', async () => {
+    const result = await suggest({
+      confidence: 0.9,
+      rules: [{
+        type: 'field',
+        name: 'Flag VIPs',
+        action: 'flag',
+        condition: group('GroupTag'),
+        effect: { field: 'PriorityLevel', operation: 'set', value: '5' },
+      }],
+    });
+    const [suggestion] = result.suggestions;
+    expect(suggestion.type === 'field' && suggestion.rule.effect).toBeUndefined();
+  });
+
+  it('checks allocation rules against the loaded data', async () => {
+    const result = await suggest({
+      confidence: 0.9,
+      rules: [{ type: 'allocation', kind: 'coRun', name: 'Pair', tasks: ['T1', 'T9'] }],
+    });
+    expect(result.suggestions).toHaveLength(1);
+    expect(result.warnings).toEqual(['Pair: Unknown task IDs: T9']);
+    expect(result.confidence).toBe(MIN_CONFIDENCE - 0.1);
+  });
+
+  it('rejects output that is not in the expected shape', async () => {
+    const result = await suggest({ rules: 'none' });
+    expect(result.suggestions).toEqual([]);
+    expect(result.confidence).toBe(0);
+    expect(result.warnings[0]).toMatch(/^The response was not in the expected shape/);
+  });
+
+  it('keeps the question the model asked', async () => {
+    const result = await suggest({ confidence: 0.3, question: 'Which group?', rules: [] });
+    expect(result.question).toBe('Which group?');
+  });
+});
+
+describe('suggestRules', () => {
+  it('falls back to the heuristic parser when no provider answers', async () => {
+    const result = await suggestRules(request, [{ parse: async () => null }]);
+    expect(result.source).toBe('heuristic');
+  });
+});
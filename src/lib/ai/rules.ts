@@ -0,0 +1,254 @@
+import { z } from 'zod';
+import {
+  AllocationContext,
+  AllocationRule,
+  allocationRuleSchema,
+  conditionGroupSchema,
+  ConditionOperator,
+  createCondition,
+  createGroup,
+  getConditions,
+  Rule,
+  validateAllocationRule,
+  WRITING_ACTIONS
+} from '../rules';
+import { EntityType } from '../utils';
+
+export interface RuleParseRequest {
+  text: string;
+  entity: EntityType;
+  // Columns the rule may use: registry fields plus any extra columns in the data
+  fields: string[];
+  context: AllocationContext;
+}
+
+export type RuleSuggestion =
+  | { type: 'field'; rule: Rule }
+  | { type: 'allocation'; rule: AllocationRule };
+
+export interface RuleSuggestionResult {
+  source: 'ai' | 'heuristic' | 'mock';
+  // 0–1, how sure the parser is that the suggestions are what the text meant
+  confidence: number;
+  suggestions: RuleSuggestion[];
+  // Set when the text is ambiguous; the user should answer it before adding anything
+  question?: string;
+  // Parts of the output that failed the schema or do not fit the data
+  warnings: string[];
+}
+
+// Anything that turns text into suggestions; resolves to null when it cannot run, e.g. without an API key
+export interface RuleParserProvider {
+  parse: (request: RuleParseRequest) => Promise<RuleSuggestionResult | null>;
+}
+
+// Below this the result is treated as a guess and the user is asked to confirm
+export const MIN_CONFIDENCE = 0.6;
+
+const OPERATOR_PHRASES: [string, ConditionOperator][] = [
+  ['must be greater than', 'greater_than'],
+  ['must be less than', 'less_than'],
+  ['cannot be empty', 'is_not_empty'],
+  ['must be empty', 'is_empty'],
+  ['must start with', 'starts_with'],
+  ['must end with', 'ends_with'],
+  ['cannot contain', 'not_contains'],
+  ['must contain', 'contains'],
+  ['cannot be', 'not_equals'],
+  ['must be', 'equals'],
+  ['should be', 'equals'],
+];
+
+let ruleCounter = 0;
+const nextRuleId = () => `${Date.now().toString(36)}-${(ruleCounter++).toString(36)}`;
+
+// "T3 and T7 run together": known task IDs plus a co-run phrase
+const parseCoRun = (request: RuleParseRequest): RuleSuggestionResult | null => {
+  if (!/\b(together|co-?run|same phase)\b/i.test(request.text)) return null;
+  const words = new Set(request.text.split(/[^A-Za-z0-9_-]+/).map(word => word.toLowerCase()));
+  const tasks = request.context.taskIds.filter(taskId => words.has(taskId.toLowerCase()));
+  if (tasks.length < 2) {
+    return {
+      source: 'heuristic',
+      confidence: 0.2,
+      suggestions: [],
+      question: 'Which tasks should run together? Name at least two task IDs from the data.',
+      warnings: [],
+    };
+  }
+  const rule: AllocationRule = { id: nextRuleId(), name: `Co-run ${tasks.join(', ')}`, isActive: true, kind: 'coRun', tasks };
+  return { source: 'heuristic', confidence: 0.7, suggestions: [{ type: 'allocation', rule }], warnings: [] };
+};
+
+// The phrase-table parser: one rule with a condition per field named in the text
+export const parseRuleHeuristically = (request: RuleParseRequest): RuleSuggestionResult => {
+  const coRun = parseCoRun(request);
+  if (coRun) return coRun;
+
+  const input = request.text.toLowerCase();
+  const fields = request.fields.filter(field => input.includes(field.toLowerCase()));
+  const phrase = OPERATOR_PHRASES.find(([text]) => input.includes(text));
+  const value = request.text.match(/"([^"]+)"/)?.[1] || '';
+
+  if (fields.length === 0) {
+    return {
+      source: 'heuristic',
+      confidence: 0,
+      suggestions: [],
+      question: `Which column should the rule check? Name one of: ${request.fields.slice(0, 10).join(', ')}.`,
+      warnings: [],
+    };
+  }
+
+  const rule: Rule = {
+    id: nextRuleId(),
+    name: request.text.slice(0, 40),
+    description: request.text,
+    entity: request.entity,
+    condition: createGroup(
+      fields.map(field => createCondition(field, phrase?.[1] || 'equals', value)),
+      /\bor\b/.test(input) ? 'or' : 'and'
+    ),
+    action: 'flag',
+    priority: 1,
+    isActive: true,
+  };
+  // A field, an operator phrase and a quoted value each make the guess more trustworthy
+  const confidence = 0.3 + (phrase ? 0.2 : 0) + (value || phrase?.[1].startsWith('is_') ? 0.2 : 0);
+  return {
+    source: 'heuristic',
+    confidence,
+    suggestions: [{ type: 'field', rule }],
+    question: confidence < MIN_CONFIDENCE ? 'This was matched on keywords only. Put the value in "quotes" and use a phrase like "must be" or "cannot contain" to be sure.' : undefined,
+    warnings: [],
+  };
+};
+
+// Model output. IDs are filled in here because the model has no reason to invent them.
+const outputSchema = z.object({
+  confidence: z.number().min(0).max(1),
+  question: z.string().nullable().optional(),
+  rules: z.array(z.unknown()).default([]),
+});
+
+const fieldRuleOutputSchema = z.object({
+  type: z.literal('field'),
+  name: z.string().min(1),
+  description: z.string().default(''),
+  condition: conditionGroupSchema,
+  action: z.enum(['flag', 'auto_correct', 'reject', 'highlight', 'transform']),
+  effect: z.object({
+    field: z.string().min(1),
+    operation: z.enum(['set', 'trim', 'uppercase', 'lowercase', 'prefix', 'suffix']),
+    value: z.string().default(''),
+  }).optional(),
+}).superRefine((rule, ctx) => {
+  // Corrections and transforms write a value, so they are useless without one
+  if (WRITING_ACTIONS.includes(rule.action) && !rule.effect) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['effect'], message: `${rule.action} needs an effect` });
+  }
+});
+
+const withNodeIds = (node: unknown): unknown => {
+  if (!node || typeof node !== 'object') return node;
+  const record = node as Record<string, unknown>;
+  if (record.type === 'condition') {
+    return { ...record, id: record.id || nextRuleId(), value: record.value === undefined || record.value === null ? '' : String(record.value) };
+  }
+  const children = Array.isArray(record.children) ? record.children.map(withNodeIds) : record.children;
+  return { ...record, id: record.id || nextRuleId(), children };
+};
+
+const formatIssues = (error: z.ZodError) => error.issues.map(issue => `${issue.path.join('.') || 'rule'}: ${issue.message}`).join('; ');
+
+// Check a provider's raw output against the rule schemas and the request's columns and data
+export const validateRuleOutput = (
+  raw: unknown,
+  request: RuleParseRequest,
+  source: RuleSuggestionResult['source']
+): RuleSuggestionResult => {
+  const output = outputSchema.safeParse(raw);
+  if (!output.success) {
+    return { source, confidence: 0, suggestions: [], warnings: [`The response was not in the expected shape: ${formatIssues(output.error)}`] };
+  }
+
+  const suggestions: RuleSuggestion[] = [];
+  const warnings: string[] = [];
+  output.data.rules.forEach((candidate, index) => {
+    const record = (candidate && typeof candidate === 'object' ? candidate : {}) as Record<string, unknown>;
+
+    if (record.type === 'allocation') {
+      const parsed = allocationRuleSchema.safeParse({ ...record, id: nextRuleId(), isActive: true });
+      if (!parsed.success) {
+        warnings.push(`Suggestion ${index + 1} was dropped: ${formatIssues(parsed.error)}`);
+        return;
+      }
+      const rule = parsed.data as AllocationRule;
+      validateAllocationRule(rule, request.context).forEach(problem => warnings.push(`${rule.name || `Suggestion ${index + 1}`}: ${problem}`));
+      suggestions.push({ type: 'allocation', rule });
+      return;
+    }
+
+    const parsed = fieldRuleOutputSchema.safeParse({ ...record, condition: withNodeIds(record.condition) });
+    if (!parsed.success) {
+      warnings.push(`Suggestion ${index + 1} was dropped: ${formatIssues(parsed.error)}`);
+      return;
+    }
+    const { type, effect, ...rest } = parsed.data;
+    // Like a rule added by hand, only the actions that write keep their effect
+    const rule: Rule = {
+      ...rest,
+      effect: WRITING_ACTIONS.includes(rest.action) ? effect : undefined,
+      entity: request.entity,
+      id: nextRuleId(),
+      priority: 1,
+      isActive: true,
+    };
+    const unknown = [...getConditions(rule.condition).map(condition => condition.field), ...(rule.effect ? [rule.effect.field] : [])]
+      .filter(field => !request.fields.includes(field));
+    if (unknown.length > 0) warnings.push(`${rule.name} uses columns the data does not have: ${Array.from(new Set(unknown)).join(', ')}`);
+    suggestions.push({ type, rule });
+  });
+
+  // Anything that had to be dropped or does not fit the data lowers the confidence
+  const confidence = warnings.length > 0 ? Math.min(output.data.confidence, MIN_CONFIDENCE - 0.1) : output.data.confidence;
+  const question = output.data.question
+    || (suggestions.length === 0 ? 'No rule could be read from that. Could you rephrase it?' : undefined)
+    || (confidence < MIN_CONFIDENCE ? 'I am not sure this is what you meant. Check the suggestions or rephrase.' : undefined);
+  return { source, confidence, suggestions, question, warnings };
+};
+
+// Calls the server route, which holds the API key. Resolves to null when no key is configured.
+export const apiRuleProvider: RuleParserProvider = {
+  parse: async (request) => {
+    try {
+      const response = await fetch('/api/ai/rules', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(request),
+      });
+      if (!response.ok) return null;
+      const body = await response.json();
+      return validateRuleOutput(body.output, request, 'ai');
+    } catch {
+      return null;
+    }
+  },
+};
+
+// For tests and offline work: replies with fixed output, which goes through the same checks as the model's
+export const createMockRuleProvider = (respond: (request: RuleParseRequest) => unknown): RuleParserProvider => ({
+  parse: async (request) => validateRuleOutput(respond(request), request, 'mock'),
+});
+
+// Try each provider in turn; the heuristic parser always answers
+export const suggestRules = async (
+  request: RuleParseRequest,
+  providers: RuleParserProvider[] = [apiRuleProvider]
+): Promise<RuleSuggestionResult> => {
+  for (const provider of providers) {
+    const result = await provider.parse(request);
+    if (result) return result;
+  }
+  return parseRuleHeuristically(request);
+};
@@ -0,0 +1,81 @@
+import * as XLSX from 'xlsx';
+import { FieldKind } from '../parsers/coercion';
+import { EntityDatasets, getEntityFieldNames, getFieldKinds, ValidationProfile, ValidationSeverity } from '../validators';
+import { EntityType, ENTITY_TYPES, getFields } from '../utils';
+
+// Turn a coerced value back into the text format the registry documents
+const serializeValue = (value: unknown, kind: FieldKind | undefined): string | number => {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'number' || typeof value === 'string') return value;
+  if (Array.isArray(value) && kind === 'list') return value.join(',');
+  return JSON.stringify(value);
+};
+
+// Registry columns first, in registry order, then any extra columns the data carries
+export const getExportColumns = (entity: EntityType, rows: unknown[]): string[] => {
+  const present = getFields(rows);
+  const registryFields = getEntityFieldNames(entity).filter(field => present.includes(field));
+  return [...registryFields, ...present.filter(field => !registryFields.includes(field))];
+};
+
+export const buildExportRows = (entity: EntityType, rows: unknown[]): Record<string, string | number>[] => {
+  const columns = getExportColumns(entity, rows);
+  const kinds = getFieldKinds(entity);
+  return rows.map((row) => {
+    const record = row as Record<string, unknown>;
+    const exported: Record<string, string | number> = {};
+    columns.forEach((column) => {
+      exported[column] = serializeValue(record[column], kinds[column]);
+    });
+    return exported;
+  });
+};
+
+export const exportEntityCsv = (entity: EntityType, rows: unknown[], fileName = `${entity}.csv`) => {
+  const worksheet = XLSX.utils.json_to_sheet(buildExportRows(entity, rows), { header: getExportColumns(entity, rows) });
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, worksheet, entity);
+  XLSX.writeFile(workbook, fileName, { bookType: 'csv' });
+};
+
+export interface ExportBundleInfo {
+  profile: ValidationProfile;
+  issues: Record<ValidationSeverity, number>;
+  // How many of the issues are reference and capacity checks across datasets
+  crossDatasetIssues: number;
+}
+
+// One workbook with a sheet per loaded dataset, plus a sheet recording how the data was validated
+export const exportBundle = (datasets: EntityDatasets, info: ExportBundleInfo, fileName = 'data-bundle.xlsx') => {
+  const workbook = XLSX.utils.book_new();
+  ENTITY_TYPES.forEach((entity) => {
+    const rows = datasets[entity];
+    if (!rows?.length) return;
+    const worksheet = XLSX.utils.json_to_sheet(buildExportRows(entity, rows), { header: getExportColumns(entity, rows) });
+    XLSX.utils.book_append_sheet(workbook, worksheet, entity);
+  });
+
+  const details = XLSX.utils.aoa_to_sheet([
+    ['Exported at', new Date().toISOString()],
+    ['Validation profile', info.profile.name],
+    ['Profile ID', info.profile.id],
+    ['Errors block export', info.profile.blockExportOnErrors ? 'yes' : 'no'],
+    ['Errors', info.issues.error],
+    ['Warnings', info.issues.warning],
+    ['Info', info.issues.info],
+    ['Cross-dataset issues', info.crossDatasetIssues],
+  ]);
+  XLSX.utils.book_append_sheet(workbook, details, 'export_info');
+  XLSX.writeFile(workbook, fileName);
+};
+
+// Save any JSON document, e.g. the rules, as a file download
+export const downloadJson = (data: unknown, fileName: string) => {
+  const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
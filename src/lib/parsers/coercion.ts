@@ -0,0 +1,121 @@
+import { EntityType, RAW_VALUES_KEY } from '../utils';
+
+export type FieldKind = 'string' | 'integer' | 'number' | 'list' | 'numberList' | 'phaseList' | 'json';
+
+export interface CoercionIssue {
+  entity: EntityType;
+  rowIndex: number;
+  field: string;
+  value: unknown;
+  expected: FieldKind;
+  message: string;
+}
+
+export interface CoercionResult {
+  rows: unknown[];
+  issues: CoercionIssue[];
+}
+
+export type Coerced = { ok: true; value: unknown } | { ok: false; message: string };
+
+const toNumber = (value: unknown, integer: boolean): Coerced => {
+  const number = typeof value === 'number' ? value : Number(String(value).trim());
+  if (Number.isNaN(number)) return { ok: false, message: 'Not a number' };
+  if (integer && !Number.isInteger(number)) return { ok: false, message: 'Not a whole number' };
+  return { ok: true, value: number };
+};
+
+// "T1, T2", "[\"T1\",\"T2\"]", "[T1,T2]" and "T1;T2" all become ['T1', 'T2']
+const toList = (value: unknown): Coerced => {
+  if (Array.isArray(value)) return { ok: true, value: value.map(String) };
+  let text = String(value).trim();
+  if (text.startsWith('[') && text.endsWith(']')) {
+    try {
+      const parsed = JSON.parse(text);
+      if (Array.isArray(parsed)) return { ok: true, value: parsed.map(String) };
+    } catch {
+      text = text.slice(1, -1);
+    }
+  }
+  return { ok: true, value: text.split(/[,;]/).map(item => item.trim()).filter(Boolean) };
+};
+
+const toNumberList = (value: unknown): Coerced => {
+  if (typeof value === 'number') return { ok: true, value: [value] };
+  const list = toList(Array.isArray(value) ? value : String(value).trim());
+  if (!list.ok) return list;
+  const numbers = (list.value as string[]).map(Number);
+  if (numbers.some(Number.isNaN)) return { ok: false, message: 'List contains non-numeric entries' };
+  return { ok: true, value: numbers };
+};
+
+// Phases accept either a list ("[1,3,5]", "1,3") or an inclusive range ("1-3")
+const toPhaseList = (value: unknown): Coerced => {
+  const range = String(value).trim().match(/^(\d+)\s*-\s*(\d+)$/);
+  if (!range) return toNumberList(value);
+  const start = Number(range[1]);
+  const end = Number(range[2]);
+  if (start > end) return { ok: false, message: `Range ${start}-${end} runs backwards` };
+  return { ok: true, value: Array.from({ length: end - start + 1 }, (_, i) => start + i) };
+};
+
+const toJson = (value: unknown): Coerced => {
+  if (typeof value === 'object') return { ok: true, value };
+  try {
+    return { ok: true, value: JSON.parse(String(value)) };
+  } catch {
+    return { ok: false, message: 'Invalid JSON' };
+  }
+};
+
+export const coerceValue = (value: unknown, kind: FieldKind): Coerced => {
+  switch (kind) {
+    case 'integer': return toNumber(value, true);
+    case 'number': return toNumber(value, false);
+    case 'list': return toList(value);
+    case 'numberList': return toNumberList(value);
+    case 'phaseList': return toPhaseList(value);
+    case 'json': return toJson(value);
+    default: return { ok: true, value: typeof value === 'string' ? value : String(value) };
+  }
+};
+
+// Convert known fields to typed values. Blank cells and unknown columns are left untouched;
+// cells that fail keep their raw value and are reported.
+export const coerceRows = (entity: EntityType, rows: unknown[], kinds: Record<string, FieldKind>): CoercionResult => {
+  const issues: CoercionIssue[] = [];
+
+  const coerced = rows.map((row, index) => {
+    const typedRow: Record<string, unknown> = { ...(row as Record<string, unknown>) };
+    const raw: Record<string, unknown> = {};
+
+    Object.entries(kinds).forEach(([field, kind]) => {
+      const value = typedRow[field];
+      if (value === undefined || value === null || value === '' || kind === 'string') return;
+      const result = coerceValue(value, kind);
+      if (result.ok) {
+        raw[field] = value;
+        typedRow[field] = result.value;
+      } else {
+        issues.push({ entity, rowIndex: index + 1, field, value, expected: kind, message: result.message });
+      }
+    });
+
+    if (Object.keys(raw).length > 0) {
+      typedRow[RAW_VALUES_KEY] = raw;
+    }
+    return typedRow;
+  });
+
+  return { rows: coerced, issues };
+};
+
+// Text to show for a cell: the original text while the value is still the coerced one,
+// otherwise the value itself (edits replace typed values with plain strings)
+export const displayValue = (row: Record<string, unknown>, field: string): string => {
+  const raw = row[RAW_VALUES_KEY] as Record<string, unknown> | undefined;
+  const value = row[field];
+  if (raw && field in raw && typeof value !== 'string') return String(raw[field]);
+  if (value !== null && typeof value === 'object') return JSON.stringify(value);
+  return value === undefined || value === null ? '' : String(value);
+};
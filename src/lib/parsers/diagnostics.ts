@@ -0,0 +1,283 @@
+import * as XLSX from 'xlsx';
+
+export type FileFormat = 'csv' | 'tsv' | 'json' | 'ndjson' | 'xlsx' | 'xls' | 'unknown';
+
+export type DiagnosticCode =
+  | 'unreadable'
+  | 'invalid_json'
+  | 'encoding'
+  | 'bom'
+  | 'ragged_row'
+  | 'blank_header'
+  | 'duplicate_header'
+  | 'merged_cells'
+  | 'trailing_empty_rows';
+
+export interface DiagnosticFinding {
+  code: DiagnosticCode;
+  severity: 'error' | 'warning' | 'info';
+  message: string;
+  sheet?: string;
+  // 1-based row number as shown in a spreadsheet app
+  row?: number;
+  column?: string;
+}
+
+export interface ParseDiagnostics {
+  format: FileFormat;
+  encoding: string | null;
+  hasBom: boolean;
+  delimiter: string | null;
+  findings: DiagnosticFinding[];
+}
+
+const DELIMITERS = [',', ';', '\t', '|'];
+const SNIFF_LINES = 20;
+
+export const delimiterLabel = (delimiter: string) => {
+  switch (delimiter) {
+    case '\t': return 'Tab';
+    case ',': return 'Comma';
+    case ';': return 'Semicolon';
+    case '|': return 'Pipe';
+    default: return JSON.stringify(delimiter);
+  }
+};
+
+// Binary formats by magic bytes, JSON flavours by extension or first characters, everything else is delimited text
+export const detectFileFormat = (data: ArrayBuffer, fileName = ''): FileFormat => {
+  const bytes = new Uint8Array(data);
+  if (bytes[0] === 0x50 && bytes[1] === 0x4b) return 'xlsx';
+  if (bytes[0] === 0xd0 && bytes[1] === 0xcf && bytes[2] === 0x11 && bytes[3] === 0xe0) return 'xls';
+  if (bytes.length === 0) return 'unknown';
+
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'json') return 'json';
+  if (extension === 'ndjson' || extension === 'jsonl') return 'ndjson';
+  if (extension === 'tsv') return 'tsv';
+
+  const head = new TextDecoder().decode(bytes.subarray(0, 4096));
+  const lines = head.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+  if (lines[0]?.startsWith('[')) return 'json';
+  if (lines[0]?.startsWith('{')) return lines.length > 1 && lines[1].startsWith('{') ? 'ndjson' : 'json';
+  return 'csv';
+};
+
+export const detectEncoding = (bytes: Uint8Array): { encoding: string; hasBom: boolean; bomLength: number } => {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return { encoding: 'UTF-8', hasBom: true, bomLength: 3 };
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return { encoding: 'UTF-16LE', hasBom: true, bomLength: 2 };
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return { encoding: 'UTF-16BE', hasBom: true, bomLength: 2 };
+  if (bytes.every(byte => byte < 0x80)) return { encoding: 'ASCII', hasBom: false, bomLength: 0 };
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    return { encoding: 'UTF-8', hasBom: false, bomLength: 0 };
+  } catch {
+    return { encoding: 'Windows-1252', hasBom: false, bomLength: 0 };
+  }
+};
+
+// Split delimited text into records, honouring quoted fields that contain delimiters or newlines
+const splitRecords = (text: string, delimiter: string): { line: number; cells: string[] }[] => {
+  const records: { line: number; cells: string[] }[] = [];
+  let cells: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n') line++;
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      cells.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      cells.push(cell);
+      records.push({ line: recordLine, cells });
+      cells = [];
+      cell = '';
+      line++;
+      recordLine = line;
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || cells.length > 0) {
+    cells.push(cell);
+    records.push({ line: recordLine, cells });
+  }
+  return records;
+};
+
+// Pick the delimiter that splits the first lines into the most consistent number of cells
+export const detectDelimiter = (text: string): string => {
+  const sample = text.split(/\r?\n/).filter(line => line.trim() !== '').slice(0, SNIFF_LINES).join('\n');
+  let best = ',';
+  let bestScore = -1;
+  DELIMITERS.forEach((delimiter) => {
+    const counts = splitRecords(sample, delimiter).map(record => record.cells.length);
+    if (counts.length === 0 || counts[0] < 2) return;
+    const consistent = counts.filter(count => count === counts[0]).length;
+    const score = consistent * 1000 + counts[0];
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  });
+  return best;
+};
+
+const isBlank = (cells: unknown[]) => cells.every(cell => String(cell ?? '').trim() === '');
+
+const checkHeaders = (headers: unknown[], findings: DiagnosticFinding[], sheet?: string) => {
+  const seen = new Map<string, string>();
+  headers.forEach((header, index) => {
+    const column = XLSX.utils.encode_col(index);
+    const name = String(header ?? '').trim();
+    if (name === '') {
+      findings.push({ code: 'blank_header', severity: 'warning', sheet, row: 1, column, message: `Column ${column} has no header` });
+      return;
+    }
+    const key = name.toLowerCase();
+    if (seen.has(key)) {
+      findings.push({
+        code: 'duplicate_header',
+        severity: 'warning',
+        sheet,
+        row: 1,
+        column,
+        message: `Header "${name}" in column ${column} repeats column ${seen.get(key)}`,
+      });
+    } else {
+      seen.set(key, column);
+    }
+  });
+};
+
+const diagnoseText = (bytes: Uint8Array, findings: DiagnosticFinding[]) => {
+  const { encoding, hasBom, bomLength } = detectEncoding(bytes);
+  if (hasBom) {
+    findings.push({ code: 'bom', severity: 'info', message: `File starts with a ${encoding} byte order mark` });
+  }
+  if (encoding === 'Windows-1252') {
+    findings.push({
+      code: 'encoding',
+      severity: 'warning',
+      message: 'File is not valid UTF-8; accented characters may be garbled. Re-save it as UTF-8.',
+    });
+  }
+
+  const decoder = new TextDecoder(encoding === 'ASCII' ? 'utf-8' : encoding.toLowerCase());
+  const text = decoder.decode(bytes.subarray(bomLength));
+  const delimiter = detectDelimiter(text);
+  const records = splitRecords(text, delimiter);
+
+  if (records.length > 0) {
+    const headers = records[0].cells;
+    checkHeaders(headers, findings);
+    records.slice(1).forEach(({ line, cells }) => {
+      if (isBlank(cells) || cells.length === headers.length) return;
+      const tooMany = cells.length > headers.length;
+      const column = XLSX.utils.encode_col(Math.min(cells.length, headers.length));
+      findings.push({
+        code: 'ragged_row',
+        severity: 'warning',
+        row: line,
+        column,
+        message: tooMany
+          ? `Row has ${cells.length} cells but there are ${headers.length} headers; extra cells start at column ${column}`
+          : `Row has ${cells.length} cells but there are ${headers.length} headers; "${headers[cells.length]}" onwards is missing`,
+      });
+    });
+
+    let count = 0;
+    for (let i = records.length - 1; i > 0 && isBlank(records[i].cells); i--) count++;
+    if (count > 0) {
+      findings.push({
+        code: 'trailing_empty_rows',
+        severity: 'info',
+        row: records[records.length - count].line,
+        message: `${count} empty row${count === 1 ? '' : 's'} at the end of the file`,
+      });
+    }
+  }
+
+  return { encoding, hasBom, delimiter };
+};
+
+const diagnoseWorkbook = (workbook: XLSX.WorkBook, findings: DiagnosticFinding[]) => {
+  workbook.SheetNames.forEach((sheet) => {
+    const worksheet = workbook.Sheets[sheet];
+    const ref = worksheet['!ref'];
+    if (!ref) return;
+    const range = XLSX.utils.decode_range(ref);
+
+    const cellValue = (r: number, c: number) => worksheet[XLSX.utils.encode_cell({ r, c })]?.v;
+    const rowCells = (r: number) => {
+      const cells: unknown[] = [];
+      for (let c = range.s.c; c <= range.e.c; c++) cells.push(cellValue(r, c));
+      return cells;
+    };
+
+    checkHeaders(rowCells(range.s.r), findings, sheet);
+
+    (worksheet['!merges'] || []).forEach((merge) => {
+      findings.push({
+        code: 'merged_cells',
+        severity: 'warning',
+        sheet,
+        row: merge.s.r + 1,
+        column: XLSX.utils.encode_col(merge.s.c),
+        message: `Cells ${XLSX.utils.encode_range(merge)} are merged; only the top-left cell keeps its value`,
+      });
+    });
+
+    // Walk up from the bottom instead of materialising every row
+    let count = 0;
+    for (let r = range.e.r; r > range.s.r && isBlank(rowCells(r)); r--) count++;
+    if (count > 0) {
+      findings.push({
+        code: 'trailing_empty_rows',
+        severity: 'info',
+        sheet,
+        row: range.e.r - count + 2,
+        message: `${count} empty row${count === 1 ? '' : 's'} at the end of the sheet`,
+      });
+    }
+  });
+};
+
+// Inspect the raw file for problems that parse silently or make the parser fail
+export const diagnoseFile = (data: ArrayBuffer, workbook: XLSX.WorkBook | null, readError?: string, fileName?: string): ParseDiagnostics => {
+  const bytes = new Uint8Array(data);
+  let format = detectFileFormat(data, fileName);
+  const findings: DiagnosticFinding[] = [];
+  let encoding: string | null = null;
+  let hasBom = false;
+  let delimiter: string | null = null;
+
+  if (format === 'csv' || format === 'tsv') {
+    ({ encoding, hasBom, delimiter } = diagnoseText(bytes, findings));
+    format = delimiter === '\t' ? 'tsv' : 'csv';
+  } else if (workbook) {
+    diagnoseWorkbook(workbook, findings);
+  }
+
+  if (readError) {
+    findings.unshift({ code: 'unreadable', severity: 'error', message: readError });
+  }
+
+  return { format, encoding, hasBom, delimiter, findings };
+};
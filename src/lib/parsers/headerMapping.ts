@@ -0,0 +1,161 @@
+import { getEntityFieldNames } from '../validators';
+import { EntityType, normalizeKey, similarity } from '../utils';
+
+export interface HeaderMatch {
+  header: string;
+  field: string | null;
+  score: number;
+  source: 'exact' | 'saved' | 'fuzzy' | 'ai' | 'manual';
+}
+
+export interface ColumnMapping {
+  entity: EntityType;
+  headers: string[];
+  rows: unknown[];
+  matches: HeaderMatch[];
+}
+
+const STORAGE_KEY = 'digitalz.headerMappings';
+const MATCH_THRESHOLD = 0.5;
+const SAMPLE_SIZE = 20;
+
+// Common vendor abbreviations, expanded before comparing names
+const ABBREVIATIONS: Record<string, string> = {
+  lvl: 'level',
+  pri: 'priority',
+  prio: 'priority',
+  qty: 'quantity',
+  req: 'requested',
+  reqd: 'required',
+  attrs: 'attributes',
+  attr: 'attributes',
+  cat: 'category',
+  dur: 'duration',
+  qual: 'qualification',
+  grp: 'group',
+  num: 'id',
+  no: 'id',
+};
+
+// Value shapes that hint at a canonical field regardless of its header
+const VALUE_PATTERNS: Record<string, RegExp> = {
+  ClientID: /^C\d+$/i,
+  WorkerID: /^W\d+$/i,
+  TaskID: /^T\d+$/i,
+  PriorityLevel: /^[1-5]$/,
+  RequestedTaskIDs: /^T\d+(\s*,\s*T\d+)*$/i,
+  AttributesJSON: /^\{.*\}$/,
+  AvailableSlots: /^\[\s*\d+(\s*,\s*\d+)*\s*\]$/,
+  PreferredPhases: /^(\[\s*\d+(\s*,\s*\d+)*\s*\]|\d+\s*-\s*\d+)$/,
+  Duration: /^\d+$/,
+  MaxLoadPerPhase: /^\d+$/,
+  MaxConcurrent: /^\d+$/,
+  QualificationLevel: /^\d+$/,
+};
+
+const expandAbbreviations = (header: string) => {
+  return header
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .split(/[\s_\-.]+/)
+    .map(part => ABBREVIATIONS[part.toLowerCase()] || part.toLowerCase())
+    .join('');
+};
+
+const nameScore = (header: string, field: string) => {
+  const raw = normalizeKey(header);
+  const canonical = normalizeKey(field);
+  if (raw === canonical) return 1;
+  const expanded = expandAbbreviations(header);
+  const score = Math.max(similarity(raw, canonical), similarity(expanded, canonical));
+  // "Name" alone or "Client" alone still says a lot about ClientName / ClientID
+  const isAffix = expanded.length >= 2 && (canonical.startsWith(expanded) || canonical.endsWith(expanded));
+  return isAffix ? Math.max(score, 0.75) : score;
+};
+
+const valueScore = (field: string, values: unknown[]) => {
+  const pattern = VALUE_PATTERNS[field];
+  const filled = values.map(v => String(v ?? '').trim()).filter(v => v !== '');
+  if (!pattern || filled.length === 0) return 0;
+  return filled.filter(v => pattern.test(v)).length / filled.length;
+};
+
+export const headerSignature = (headers: string[]) => {
+  return headers.map(normalizeKey).sort().join('|');
+};
+
+type SavedMappings = Record<string, Record<string, string | null>>;
+
+const readSavedMappings = (): SavedMappings => {
+  if (typeof window === 'undefined') return {};
+  try {
+    return JSON.parse(window.localStorage.getItem(STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+export const loadSavedMapping = (entity: EntityType, headers: string[]) => {
+  return readSavedMappings()[`${entity}:${headerSignature(headers)}`] || null;
+};
+
+export const saveMapping = (mapping: ColumnMapping) => {
+  if (typeof window === 'undefined') return;
+  const saved = readSavedMappings();
+  saved[`${mapping.entity}:${headerSignature(mapping.headers)}`] = Object.fromEntries(
+    mapping.matches.map(match => [match.header, match.field])
+  );
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(saved));
+};
+
+// Propose a canonical field for every raw header, each field used at most once
+export const matchHeaders = (entity: EntityType, headers: string[], rows: unknown[]): HeaderMatch[] => {
+  const saved = loadSavedMapping(entity, headers);
+  if (saved) {
+    return headers.map(header => ({ header, field: saved[header] ?? null, score: 1, source: 'saved' }));
+  }
+
+  const samples = rows.slice(0, SAMPLE_SIZE);
+  const candidates: { header: string; field: string; score: number }[] = [];
+  headers.forEach((header) => {
+    const values = samples.map(row => (row as Record<string, unknown>)[header]);
+    getEntityFieldNames(entity).forEach((field) => {
+      const byName = nameScore(header, field);
+      const byValue = valueScore(field, values);
+      candidates.push({ header, field, score: byName === 1 ? 1 : byName * 0.7 + byValue * 0.3 });
+    });
+  });
+  candidates.sort((a, b) => b.score - a.score);
+
+  const matched = new Map<string, HeaderMatch>();
+  const usedFields = new Set<string>();
+  candidates.forEach(({ header, field, score }) => {
+    if (score < MATCH_THRESHOLD || matched.has(header) || usedFields.has(field)) return;
+    const source = normalizeKey(header) === normalizeKey(field) ? 'exact' : 'fuzzy';
+    matched.set(header, { header, field, score, source });
+    usedFields.add(field);
+  });
+
+  return headers.map(header => matched.get(header) || { header, field: null, score: 0, source: 'fuzzy' });
+};
+
+export const buildColumnMapping = (entity: EntityType, rows: unknown[]): ColumnMapping => {
+  const headers = Array.from(new Set(rows.slice(0, SAMPLE_SIZE).flatMap(row => Object.keys(row as Record<string, unknown>))));
+  return { entity, headers, rows, matches: matchHeaders(entity, headers, rows) };
+};
+
+// Exact and remembered mappings can be applied without asking the user
+export const needsReview = (mapping: ColumnMapping) => {
+  return mapping.matches.some(match => match.source !== 'exact' && match.source !== 'saved');
+};
+
+// Rename row keys to their canonical field; unmapped headers keep their raw name
+export const applyColumnMapping = (mapping: ColumnMapping): unknown[] => {
+  const renames = new Map(mapping.matches.map(match => [match.header, match.field || match.header]));
+  return mapping.rows.map((row) => {
+    const renamed: Record<string, unknown> = {};
+    Object.entries(row as Record<string, unknown>).forEach(([key, value]) => {
+      renamed[renames.get(key) || key] = value;
+    });
+    return renamed;
+  });
+};
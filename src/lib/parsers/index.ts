@@ -0,0 +1,191 @@
+import * as XLSX from 'xlsx';
+import { detectFileFormat, diagnoseFile, ParseDiagnostics } from './diagnostics';
+import { parseJsonFile } from './json';
+import { getEntityFieldNames } from '../validators';
+import { EntityType, ENTITY_TYPES, normalizeKey } from '../utils';
+
+export * from './headerMapping';
+export * from './coercion';
+export * from './diagnostics';
+export * from './merge';
+
+export interface ParsedSheet {
+  name: string;
+  headers: string[];
+  rows: unknown[];
+  entity: EntityType | null;
+}
+
+export type SheetAssignments = Partial<Record<EntityType, unknown[]>>;
+
+export interface ParseOutcome {
+  sheets: ParsedSheet[];
+  diagnostics: ParseDiagnostics;
+  // Set when the file could not be read at all; sheets is empty then
+  error?: string;
+}
+
+export interface ParseProgress {
+  sheetName: string;
+  rowsParsed: number;
+  totalRows: number;
+}
+
+// Messages exchanged with parse.worker.ts
+export interface ParserRequest {
+  buffer: ArrayBuffer;
+  fileName: string;
+  chunkSize: number;
+}
+
+export type ParserResponse =
+  | { type: 'progress'; progress: ParseProgress }
+  | { type: 'done'; outcome: ParseOutcome }
+  | { type: 'error'; message: string };
+
+export interface ParseTask {
+  // Resolves to null when the parse was cancelled
+  result: Promise<ParseOutcome | null>;
+  cancel: () => void;
+}
+
+const DEFAULT_CHUNK_SIZE = 5000;
+
+export const readWorkbook = (data: ArrayBuffer): XLSX.WorkBook => {
+  return XLSX.read(new Uint8Array(data), { type: 'array' });
+};
+
+export const sheetToRows = (worksheet: XLSX.WorkSheet): unknown[] => {
+  return XLSX.utils.sheet_to_json(worksheet, { defval: '' });
+};
+
+// Same keys sheet_to_json produces: blank headers become __EMPTY, repeats get a _n suffix
+export const uniqueHeaders = (headerRow: unknown[]): string[] => {
+  const seen: Record<string, number> = {};
+  return headerRow.map((value) => {
+    const base = String(value ?? '') || '__EMPTY';
+    let key = base;
+    if (seen[base] !== undefined) {
+      key = `${base}_${seen[base]}`;
+    }
+    seen[base] = (seen[base] || 0) + 1;
+    return key;
+  });
+};
+
+// Guess the entity from the sheet name first, then from how many canonical headers it carries
+export const guessEntity = (sheetName: string, headers: string[]): EntityType | null => {
+  const name = normalizeKey(sheetName);
+  for (const entity of ENTITY_TYPES) {
+    if (name.includes(entity.slice(0, -1))) return entity;
+  }
+
+  const normalizedHeaders = new Set(headers.map(normalizeKey));
+  let best: EntityType | null = null;
+  let bestScore = 0;
+  ENTITY_TYPES.forEach((entity) => {
+    const score = getEntityFieldNames(entity).filter(field => normalizedHeaders.has(normalizeKey(field))).length;
+    if (score > bestScore) {
+      best = entity;
+      bestScore = score;
+    }
+  });
+  return best;
+};
+
+export const parseSheets = (workbook: XLSX.WorkBook): ParsedSheet[] => {
+  return workbook.SheetNames.map((name) => {
+    const rows = sheetToRows(workbook.Sheets[name]);
+    const headers = rows.length > 0 ? Object.keys(rows[0] as Record<string, unknown>) : [];
+    return { name, headers, rows, entity: guessEntity(name, headers) };
+  });
+};
+
+// JSON and NDJSON bypass SheetJS; the file name stands in for the sheet name
+export const parseJson = (
+  data: ArrayBuffer,
+  fileName: string,
+  onProgress?: (progress: ParseProgress) => void,
+  chunkSize = DEFAULT_CHUNK_SIZE
+): ParseOutcome | null => {
+  const format = detectFileFormat(data, fileName);
+  if (format !== 'json' && format !== 'ndjson') return null;
+  const name = fileName.replace(/\.[^.]+$/, '');
+  const outcome = parseJsonFile(data, format, name, chunkSize, onProgress);
+  return {
+    ...outcome,
+    sheets: outcome.sheets.map(sheet => ({ ...sheet, entity: guessEntity(sheet.name, sheet.headers) })),
+  };
+};
+
+// Collect rows per entity; sheets mapped to the same entity are concatenated
+export const assignSheets = (sheets: ParsedSheet[]): SheetAssignments => {
+  const assignments: SheetAssignments = {};
+  sheets.forEach((sheet) => {
+    if (!sheet.entity) return;
+    assignments[sheet.entity] = [...(assignments[sheet.entity] || []), ...sheet.rows];
+  });
+  return assignments;
+};
+
+// Fallback for environments without Web Worker support
+const parseOnMainThread = async (file: File): Promise<ParseOutcome> => {
+  const buffer = await file.arrayBuffer();
+  const json = parseJson(buffer, file.name);
+  if (json) return json;
+  let workbook: XLSX.WorkBook;
+  try {
+    workbook = readWorkbook(buffer);
+  } catch (err) {
+    const error = err instanceof Error ? err.message : String(err);
+    return { sheets: [], diagnostics: diagnoseFile(buffer, null, error, file.name), error };
+  }
+  return { sheets: parseSheets(workbook), diagnostics: diagnoseFile(buffer, workbook, undefined, file.name) };
+};
+
+// Parse a CSV/TSV/XLSX/JSON/NDJSON file off the main thread, reporting progress after every chunk of rows
+export const parseFile = (
+  file: File,
+  onProgress?: (progress: ParseProgress) => void,
+  chunkSize = DEFAULT_CHUNK_SIZE
+): ParseTask => {
+  if (typeof Worker === 'undefined') {
+    return { result: parseOnMainThread(file), cancel: () => {} };
+  }
+
+  const worker = new Worker(new URL('./parse.worker.ts', import.meta.url), { type: 'module' });
+  let settle: (outcome: ParseOutcome | null) => void = () => {};
+
+  const result = new Promise<ParseOutcome | null>((resolve, reject) => {
+    settle = (outcome) => {
+      worker.terminate();
+      resolve(outcome);
+    };
+    worker.onmessage = (e: MessageEvent<ParserResponse>) => {
+      const response = e.data;
+      switch (response.type) {
+        case 'progress':
+          onProgress?.(response.progress);
+          break;
+        case 'done':
+          settle(response.outcome);
+          break;
+        case 'error':
+          worker.terminate();
+          reject(new Error(response.message));
+          break;
+      }
+    };
+    worker.onerror = (e) => {
+      worker.terminate();
+      reject(new Error(e.message || 'Parser worker failed'));
+    };
+    file.arrayBuffer().then((buffer) => {
+      const request: ParserRequest = { buffer, fileName: file.name, chunkSize };
+      worker.postMessage(request, [buffer]);
+    }, reject);
+  });
+
+  // Terminating the worker stops parsing immediately, even mid-chunk
+  return { result, cancel: () => settle(null) };
+};
@@ -0,0 +1,102 @@
+import { DiagnosticFinding, detectEncoding, FileFormat } from './diagnostics';
+import type { ParseOutcome, ParseProgress } from './index';
+
+// JSON exports often wrap the records: { "data": [...] }, or carry one array per entity:
+// { "clients": [...], "workers": [...] }. Each array becomes its own sheet.
+const findRecordArrays = (value: unknown, name: string): { name: string; items: unknown[] }[] => {
+  if (Array.isArray(value)) return [{ name, items: value }];
+  if (value && typeof value === 'object') {
+    const arrays = Object.entries(value).filter(([, item]) => Array.isArray(item));
+    if (arrays.length > 0) return arrays.map(([key, items]) => ({ name: key, items: items as unknown[] }));
+    return [{ name, items: [value] }];
+  }
+  return [];
+};
+
+// Give every row every column, like sheet_to_json's defval: ''
+const fillMissingKeys = (records: Record<string, unknown>[]): unknown[] => {
+  const keys = Array.from(new Set(records.flatMap(record => Object.keys(record))));
+  return records.map(record => Object.fromEntries(keys.map(key => [key, record[key] ?? ''])));
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+};
+
+// Parse a JSON or NDJSON file into rows, reporting progress per chunk of NDJSON lines
+export const parseJsonFile = (
+  data: ArrayBuffer,
+  format: Extract<FileFormat, 'json' | 'ndjson'>,
+  name: string,
+  chunkSize: number,
+  onProgress?: (progress: ParseProgress) => void
+): ParseOutcome => {
+  const bytes = new Uint8Array(data);
+  const { encoding, hasBom, bomLength } = detectEncoding(bytes);
+  const text = new TextDecoder(encoding === 'ASCII' ? 'utf-8' : encoding.toLowerCase()).decode(bytes.subarray(bomLength));
+  const findings: DiagnosticFinding[] = [];
+  const diagnostics = () => ({ format, encoding, hasBom, delimiter: null, findings });
+  const groups: { name: string; records: Record<string, unknown>[] }[] = [];
+
+  if (format === 'json') {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch (err) {
+      const error = err instanceof Error ? err.message : String(err);
+      findings.push({ code: 'invalid_json', severity: 'error', message: error });
+      return { sheets: [], diagnostics: diagnostics(), error };
+    }
+    const arrays = findRecordArrays(parsed, name);
+    if (arrays.length === 0) {
+      const error = 'JSON file does not contain an array of records';
+      findings.push({ code: 'invalid_json', severity: 'error', message: error });
+      return { sheets: [], diagnostics: diagnostics(), error };
+    }
+    arrays.forEach((array) => {
+      const records: Record<string, unknown>[] = [];
+      array.items.forEach((item, index) => {
+        if (isRecord(item)) {
+          records.push(item);
+        } else {
+          findings.push({
+            code: 'invalid_json',
+            severity: 'warning',
+            sheet: arrays.length > 1 ? array.name : undefined,
+            row: index + 1,
+            message: 'Entry is not an object and was skipped',
+          });
+        }
+      });
+      groups.push({ name: array.name, records });
+    });
+  } else {
+    const records: Record<string, unknown>[] = [];
+    const lines = text.split(/\r?\n/);
+    for (let start = 0; start < lines.length; start += chunkSize) {
+      lines.slice(start, start + chunkSize).forEach((line, offset) => {
+        if (line.trim() === '') return;
+        const row = start + offset + 1;
+        try {
+          const item = JSON.parse(line);
+          if (isRecord(item)) {
+            records.push(item);
+          } else {
+            findings.push({ code: 'invalid_json', severity: 'warning', row, message: 'Line is not a JSON object and was skipped' });
+          }
+        } catch {
+          findings.push({ code: 'invalid_json', severity: 'warning', row, message: 'Line is not valid JSON and was skipped' });
+        }
+      });
+      onProgress?.({ sheetName: name, rowsParsed: Math.min(start + chunkSize, lines.length), totalRows: lines.length });
+    }
+    groups.push({ name, records });
+  }
+
+  const sheets = groups.map((group) => {
+    const rows = fillMissingKeys(group.records);
+    const headers = rows.length > 0 ? Object.keys(rows[0] as Record<string, unknown>) : [];
+    return { name: group.name, headers, rows, entity: null };
+  });
+  return { sheets, diagnostics: diagnostics() };
+};
@@ -0,0 +1,91 @@
+import { getEntitySchema } from '../validators';
+import { EntityType, getFields, RAW_VALUES_KEY } from '../utils';
+
+export type MergeMode = 'replace' | 'append' | 'upsert';
+
+export interface RowChange {
+  key: string;
+  before: Record<string, unknown>;
+  after: Record<string, unknown>;
+  changedFields: string[];
+}
+
+export interface MergeDiff {
+  added: Record<string, unknown>[];
+  updated: RowChange[];
+  unchanged: Record<string, unknown>[];
+  // Only filled in replace mode: existing rows the new file no longer contains
+  removed: Record<string, unknown>[];
+  result: unknown[];
+}
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+const changedFields = (before: Record<string, unknown>, after: Record<string, unknown>) => {
+  const fields = new Set([...getFields([before]), ...getFields([after])]);
+  return Array.from(fields).filter(field => !sameValue(before[field], after[field]));
+};
+
+const rowKey = (row: Record<string, unknown>, keyField: string) => {
+  const key = row[keyField];
+  return key === undefined || key === null || String(key).trim() === '' ? null : String(key).trim();
+};
+
+// Upsert keeps columns the new file does not carry; coerced raw text follows the new values
+const upsertRow = (before: Record<string, unknown>, row: Record<string, unknown>) => {
+  const merged = { ...before, ...row };
+  if (before[RAW_VALUES_KEY] || row[RAW_VALUES_KEY]) {
+    merged[RAW_VALUES_KEY] = { ...(before[RAW_VALUES_KEY] as object), ...(row[RAW_VALUES_KEY] as object) };
+  }
+  return merged;
+};
+
+// Work out what re-importing `incoming` on top of `existing` would do, without applying it
+export const mergeRows = (entity: EntityType, existing: unknown[], incoming: unknown[], mode: MergeMode): MergeDiff => {
+  const keyField = getEntitySchema(entity).primaryKey;
+  const current = existing as Record<string, unknown>[];
+  const next = incoming as Record<string, unknown>[];
+
+  if (mode === 'append') {
+    return { added: next, updated: [], unchanged: [], removed: [], result: [...current, ...next] };
+  }
+
+  const existingByKey = new Map<string, { row: Record<string, unknown>; index: number }>();
+  current.forEach((row, index) => {
+    const key = rowKey(row, keyField);
+    if (key !== null && !existingByKey.has(key)) existingByKey.set(key, { row, index });
+  });
+
+  const diff: MergeDiff = { added: [], updated: [], unchanged: [], removed: [], result: [] };
+  const seenKeys = new Set<string>();
+  const replacements = new Map<number, Record<string, unknown>>();
+
+  next.forEach((row) => {
+    const key = rowKey(row, keyField);
+    const match = key !== null ? existingByKey.get(key) : undefined;
+    if (key === null || !match) {
+      diff.added.push(row);
+      return;
+    }
+    seenKeys.add(key);
+    const after = mode === 'upsert' ? upsertRow(match.row, row) : row;
+    const fields = changedFields(match.row, after);
+    if (fields.length === 0) {
+      diff.unchanged.push(match.row);
+    } else {
+      diff.updated.push({ key, before: match.row, after, changedFields: fields });
+      replacements.set(match.index, after);
+    }
+  });
+
+  if (mode === 'replace') {
+    diff.removed = current.filter(row => {
+      const key = rowKey(row, keyField);
+      return key === null || !seenKeys.has(key);
+    });
+    diff.result = next;
+  } else {
+    diff.result = [...current.map((row, index) => replacements.get(index) || row), ...diff.added];
+  }
+  return diff;
+};
@@ -0,0 +1,80 @@
+import * as XLSX from 'xlsx';
+import {
+  diagnoseFile,
+  guessEntity,
+  ParsedSheet,
+  parseJson,
+  ParserRequest,
+  ParserResponse,
+  readWorkbook,
+  uniqueHeaders
+} from './index';
+
+const post = (message: ParserResponse) => self.postMessage(message);
+
+const parse = (buffer: ArrayBuffer, fileName: string, chunkSize: number) => {
+  const json = parseJson(buffer, fileName, progress => post({ type: 'progress', progress }), chunkSize);
+  if (json) {
+    post({ type: 'done', outcome: json });
+    return;
+  }
+
+  let workbook: XLSX.WorkBook;
+  try {
+    workbook = readWorkbook(buffer);
+  } catch (err) {
+    // Still describe what is wrong with the file
+    const error = err instanceof Error ? err.message : String(err);
+    post({ type: 'done', outcome: { sheets: [], diagnostics: diagnoseFile(buffer, null, error, fileName), error } });
+    return;
+  }
+  const ranges = workbook.SheetNames.map(name => {
+    const ref = workbook.Sheets[name]['!ref'];
+    return ref ? XLSX.utils.decode_range(ref) : null;
+  });
+  // First row of each sheet is the header row
+  const totalRows = ranges.reduce((sum, range) => sum + (range ? range.e.r - range.s.r : 0), 0);
+  let rowsParsed = 0;
+  const sheets: ParsedSheet[] = [];
+
+  for (let i = 0; i < workbook.SheetNames.length; i++) {
+    const name = workbook.SheetNames[i];
+    const worksheet = workbook.Sheets[name];
+    const range = ranges[i];
+    const rows: unknown[] = [];
+    let headers: string[] = [];
+
+    if (range) {
+      const headerRow = XLSX.utils.sheet_to_json<unknown[]>(worksheet, {
+        header: 1,
+        defval: '',
+        range: { s: range.s, e: { r: range.s.r, c: range.e.c } },
+      })[0] || [];
+      headers = uniqueHeaders(headerRow);
+
+      for (let start = range.s.r + 1; start <= range.e.r; start += chunkSize) {
+        const end = Math.min(start + chunkSize - 1, range.e.r);
+        const chunk = XLSX.utils.sheet_to_json(worksheet, {
+          header: headers,
+          defval: '',
+          range: { s: { r: start, c: range.s.c }, e: { r: end, c: range.e.c } },
+        });
+        rows.push(...chunk);
+        rowsParsed += end - start + 1;
+        post({ type: 'progress', progress: { sheetName: name, rowsParsed, totalRows } });
+      }
+    }
+
+    sheets.push({ name, headers, rows, entity: guessEntity(name, headers) });
+  }
+
+  post({ type: 'done', outcome: { sheets, diagnostics: diagnoseFile(buffer, workbook, undefined, fileName) } });
+};
+
+self.onmessage = (e: MessageEvent<ParserRequest>) => {
+  try {
+    parse(e.data.buffer, e.data.fileName, e.data.chunkSize);
+  } catch (err) {
+    post({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+  }
+};
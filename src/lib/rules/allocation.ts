@@ -0,0 +1,191 @@
+import { EntityDatasets, readId, readList } from '../validators';
+
+export type AllocationRuleKind =
+  | 'coRun'
+  | 'slotRestriction'
+  | 'loadLimit'
+  | 'phaseWindow'
+  | 'patternMatch'
+  | 'precedenceOverride';
+
+interface AllocationRuleBase {
+  id: string;
+  name: string;
+  isActive: boolean;
+}
+
+// Tasks that must be scheduled in the same phase
+export interface CoRunRule extends AllocationRuleBase {
+  kind: 'coRun';
+  tasks: string[];
+}
+
+// Members of a client or worker group must share at least this many slots
+export interface SlotRestrictionRule extends AllocationRuleBase {
+  kind: 'slotRestriction';
+  groupType: 'client' | 'worker';
+  group: string;
+  minCommonSlots: number;
+}
+
+export interface LoadLimitRule extends AllocationRuleBase {
+  kind: 'loadLimit';
+  workerGroup: string;
+  maxSlotsPerPhase: number;
+}
+
+export interface PhaseWindowRule extends AllocationRuleBase {
+  kind: 'phaseWindow';
+  taskId: string;
+  allowedPhases: number[];
+}
+
+// Handed to the allocation engine as is: the regex picks what the rule applies to, the template what it does
+export interface PatternMatchRule extends AllocationRuleBase {
+  kind: 'patternMatch';
+  regex: string;
+  template: string;
+  params: Record<string, unknown>;
+}
+
+// Rule IDs, highest precedence first; overrides priority order wherever these rules disagree
+export interface PrecedenceOverrideRule extends AllocationRuleBase {
+  kind: 'precedenceOverride';
+  ruleIds: string[];
+}
+
+export type AllocationRule =
+  | CoRunRule
+  | SlotRestrictionRule
+  | LoadLimitRule
+  | PhaseWindowRule
+  | PatternMatchRule
+  | PrecedenceOverrideRule;
+
+export const ALLOCATION_RULE_KINDS: { value: AllocationRuleKind; label: string; description: string }[] = [
+  { value: 'coRun', label: 'Co-run', description: 'Tasks that must run together' },
+  { value: 'slotRestriction', label: 'Slot Restriction', description: 'Minimum common slots for a client or worker group' },
+  { value: 'loadLimit', label: 'Load Limit', description: 'Maximum slots per phase for a worker group' },
+  { value: 'phaseWindow', label: 'Phase Window', description: 'Phases a task may run in' },
+  { value: 'patternMatch', label: 'Pattern Match', description: 'Regex with a rule template and parameters' },
+  { value: 'precedenceOverride', label: 'Precedence Override', description: 'Explicit order between rules' }
+];
+
+// Everything the forms need to know about the loaded data
+export interface AllocationContext {
+  taskIds: string[];
+  clientGroups: string[];
+  workerGroups: string[];
+  phases: number[];
+  ruleIds: string[];
+}
+
+const unique = <T>(values: T[]) => Array.from(new Set(values));
+
+const readColumn = (rows: unknown[] | null, field: string) => {
+  return unique((rows || []).map(row => readId(row as Record<string, unknown>, field)).filter(Boolean));
+};
+
+// Known phases are the ones any worker is available in or any task prefers
+export const getAllocationContext = (datasets: EntityDatasets, ruleIds: string[]): AllocationContext => {
+  const phases = unique([
+    ...(datasets.workers || []).flatMap(row => readList(row as Record<string, unknown>, 'AvailableSlots', 'numberList')),
+    ...(datasets.tasks || []).flatMap(row => readList(row as Record<string, unknown>, 'PreferredPhases', 'phaseList')),
+  ].map(Number)).sort((a, b) => a - b);
+
+  return {
+    taskIds: readColumn(datasets.tasks, 'TaskID'),
+    clientGroups: readColumn(datasets.clients, 'GroupTag'),
+    workerGroups: readColumn(datasets.workers, 'WorkerGroup'),
+    phases,
+    ruleIds,
+  };
+};
+
+const isPositiveInteger = (value: number) => Number.isInteger(value) && value >= 1;
+
+// Problems that would make the rule meaningless to the allocation engine; empty when the rule is valid
+export const validateAllocationRule = (rule: AllocationRule, context: AllocationContext): string[] => {
+  const errors: string[] = [];
+  if (!rule.name.trim()) errors.push('Give the rule a name');
+
+  switch (rule.kind) {
+    case 'coRun': {
+      if (rule.tasks.length < 2) errors.push('Pick at least two tasks to run together');
+      if (unique(rule.tasks).length !== rule.tasks.length) errors.push('A task is listed more than once');
+      const missing = rule.tasks.filter(task => !context.taskIds.includes(task));
+      if (missing.length > 0) errors.push(`Unknown task IDs: ${missing.join(', ')}`);
+      break;
+    }
+    case 'slotRestriction': {
+      const groups = rule.groupType === 'client' ? context.clientGroups : context.workerGroups;
+      if (!rule.group) errors.push('Pick a group');
+      else if (!groups.includes(rule.group)) errors.push(`No ${rule.groupType} belongs to group ${rule.group}`);
+      if (!isPositiveInteger(rule.minCommonSlots)) errors.push('Minimum common slots must be a whole number of at least 1');
+      else if (context.phases.length > 0 && rule.minCommonSlots > context.phases.length) {
+        errors.push(`Only ${context.phases.length} phases are known, so ${rule.minCommonSlots} common slots is impossible`);
+      }
+      break;
+    }
+    case 'loadLimit':
+      if (!rule.workerGroup) errors.push('Pick a worker group');
+      else if (!context.workerGroups.includes(rule.workerGroup)) errors.push(`No worker belongs to group ${rule.workerGroup}`);
+      if (!isPositiveInteger(rule.maxSlotsPerPhase)) errors.push('Max slots per phase must be a whole number of at least 1');
+      break;
+    case 'phaseWindow': {
+      if (!rule.taskId) errors.push('Pick a task');
+      else if (!context.taskIds.includes(rule.taskId)) errors.push(`Unknown task ID: ${rule.taskId}`);
+      if (rule.allowedPhases.length === 0) errors.push('Allow at least one phase');
+      if (context.phases.length === 0) {
+        errors.push('No phases are known yet; load workers or tasks first');
+      } else {
+        const outside = rule.allowedPhases.filter(phase => !context.phases.includes(phase));
+        if (outside.length > 0) errors.push(`Outside the known phases (${context.phases.join(', ')}): ${outside.join(', ')}`);
+      }
+      break;
+    }
+    case 'patternMatch':
+      if (!rule.regex) errors.push('Enter a regular expression');
+      else {
+        try {
+          new RegExp(rule.regex);
+        } catch (error) {
+          errors.push((error as Error).message);
+        }
+      }
+      if (!rule.template.trim()) errors.push('Enter the rule template the pattern applies');
+      break;
+    case 'precedenceOverride': {
+      if (rule.ruleIds.length < 2) errors.push('Order at least two rules');
+      if (unique(rule.ruleIds).length !== rule.ruleIds.length) errors.push('A rule is listed more than once');
+      if (rule.ruleIds.includes(rule.id)) errors.push('A precedence override cannot list itself');
+      const missing = rule.ruleIds.filter(id => !context.ruleIds.includes(id));
+      if (missing.length > 0) errors.push(`Unknown rule IDs: ${missing.join(', ')}`);
+      break;
+    }
+  }
+  return errors;
+};
+
+export const createAllocationRule = (kind: AllocationRuleKind): AllocationRule => {
+  const base = { id: `${kind}-${Date.now().toString(36)}`, name: '', isActive: true };
+  switch (kind) {
+    case 'coRun': return { ...base, kind, tasks: [] };
+    case 'slotRestriction': return { ...base, kind, groupType: 'client', group: '', minCommonSlots: 1 };
+    case 'loadLimit': return { ...base, kind, workerGroup: '', maxSlotsPerPhase: 1 };
+    case 'phaseWindow': return { ...base, kind, taskId: '', allowedPhases: [] };
+    case 'patternMatch': return { ...base, kind, regex: '', template: '', params: {} };
+    default: return { ...base, kind: 'precedenceOverride', ruleIds: [] };
+  }
+};
+
+export const describeAllocationRule = (rule: AllocationRule): string => {
+  switch (rule.kind) {
+    case 'coRun': return `Run ${rule.tasks.join(', ')} together`;
+    case 'slotRestriction': return `${rule.groupType === 'client' ? 'Client' : 'Worker'} group ${rule.group} needs ${rule.minCommonSlots} common slots`;
+    case 'loadLimit': return `Worker group ${rule.workerGroup} takes at most ${rule.maxSlotsPerPhase} slots per phase`;
+    case 'phaseWindow': return `Task ${rule.taskId} runs only in phases ${rule.allowedPhases.join(', ')}`;
+    case 'patternMatch': return `/${rule.regex}/ → ${rule.template}`;
+    default: return `Precedence: ${rule.ruleIds.join(' > ')}`;
+  }
+};
@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import { AllocationRule } from './allocation';
+import { analyzeRules } from './analysis';
+import { ConditionLeaf, createCondition, createGroup } from './conditions';
+import type { Rule } from './index';
+
+const makeRule = (id: string, conditions: ConditionLeaf[], changes: Partial<Rule> = {}): Rule => ({
+  id,
+  name: id,
+  description: '',
+  entity: 'clients',
+  condition: createGroup(conditions),
+  action: 'flag',
+  priority: 1,
+  isActive: true,
+  ...changes,
+});
+
+const datasets = {
+  clients: [
+    { ClientID: 'C1', Status: 'Active', GroupTag: 'VIP' },
+    { ClientID: 'C2', Status: 'Closed', GroupTag: 'Standard' },
+  ],
+  workers: null,
+  tasks: null,
+};
+
+const kinds = (rules: Rule[], allocationRules: AllocationRule[] = []) => {
+  return analyzeRules(rules, allocationRules, datasets).map(finding => [finding.kind, finding.ruleIds]);
+};
+
+describe('analyzeRules', () => {
+  it('reports a rule that contradicts itself as a conflict naming both conditions', () => {
+    const findings = analyzeRules([
+      makeRule('self', [createCondition('Status', 'equals', 'Active'), createCondition('Status', 'not_equals', 'active')]),
+    ], [], datasets);
+    expect(findings).toEqual([{
+      kind: 'conflict',
+      ruleIds: ['self'],
+      message: 'Rule "self" contradicts itself: Status = \'Active\' and Status ≠ \'active\' cannot both hold, so it never matches.',
+    }]);
+  });
+
+  it('reports complementary rules with the same action as a conflict', () => {
+    expect(kinds([
+      makeRule('active', [createCondition('Status', 'equals', 'Active')]),
+      makeRule('inactive', [createCondition('Status', 'not_equals', 'Active')]),
+    ])).toEqual([['conflict', ['active', 'inactive']]]);
+  });
+
+  it('reports rules writing different values to the same cells', () => {
+    const write = (id: string, value: string) => makeRule(id, [createCondition('GroupTag', 'equals', 'VIP')], {
+      action: 'auto_correct',
+      effect: { field: 'Tier', operation: 'set', value },
+    });
+    expect(kinds([write('gold', 'Gold'), write('silver', 'Silver')])).toEqual([['conflict', ['gold', 'silver']]]);
+  });
+
+  it('reports rules shadowed by an earlier reject and rules already covered', () => {
+    expect(kinds([
+      makeRule('reject', [createCondition('Status', 'equals', 'Active')], { action: 'reject' }),
+      makeRule('vip', [createCondition('GroupTag', 'equals', 'VIP')], { priority: 2 }),
+    ])).toEqual([['shadowed', ['reject', 'vip']]]);
+
+    expect(kinds([
+      makeRule('active', [createCondition('Status', 'equals', 'Active')]),
+      makeRule('vip', [createCondition('GroupTag', 'equals', 'VIP')], { priority: 2 }),
+    ])).toEqual([['redundant', ['active', 'vip']]]);
+  });
+
+  it('finds cycles between rules that write what the other tests', () => {
+    const rules = [
+      makeRule('a', [createCondition('Status', 'equals', 'Active')], {
+        action: 'transform',
+        effect: { field: 'GroupTag', operation: 'uppercase', value: '' },
+      }),
+      makeRule('b', [createCondition('GroupTag', 'equals', 'VIP')], {
+        action: 'auto_correct',
+        effect: { field: 'Status', operation: 'set', value: 'Active' },
+        priority: 2,
+      }),
+    ];
+    expect(kinds(rules)).toEqual([['cycle', ['a', 'b']]]);
+  });
+
+  it('does not count an effect on a rule that does not write', () => {
+    const rules = [
+      makeRule('a', [createCondition('Status', 'equals', 'Active')], {
+        action: 'transform',
+        effect: { field: 'GroupTag', operation: 'uppercase', value: '' },
+      }),
+      makeRule('b', [createCondition('GroupTag', 'equals', 'Standard')], {
+        action: 'highlight',
+        effect: { field: 'Status', operation: 'set', value: 'Active' },
+      }),
+    ];
+    expect(kinds(rules)).toEqual([]);
+  });
+
+  it('checks allocation rules against each other', () => {
+    const base = { name: '', isActive: true };
+    expect(kinds([], [
+      { ...base, id: 'w1', kind: 'phaseWindow', taskId: 'T1', allowedPhases: [1, 2] },
+      { ...base, id: 'w2', kind: 'phaseWindow', taskId: 'T1', allowedPhases: [3] },
+      { ...base, id: 'l1', kind: 'loadLimit', workerGroup: 'A', maxSlotsPerPhase: 2 },
+      { ...base, id: 'l2', kind: 'loadLimit', workerGroup: 'A', maxSlotsPerPhase: 2 },
+      { ...base, id: 'p1', kind: 'precedenceOverride', ruleIds: ['x', 'y'] },
+      { ...base, id: 'p2', kind: 'precedenceOverride', ruleIds: ['y', 'x'] },
+    ])).toEqual([
+      ['conflict', ['w1', 'w2']],
+      ['redundant', ['l1', 'l2']],
+      ['cycle', ['p1', 'p2', 'x', 'y']],
+    ]);
+  });
+
+  it('skips inactive rules', () => {
+    expect(kinds([
+      makeRule('active', [createCondition('Status', 'equals', 'Active')]),
+      makeRule('inactive', [createCondition('Status', 'not_equals', 'Active')], { isActive: false }),
+    ])).toEqual([]);
+  });
+});
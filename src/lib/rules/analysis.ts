@@ -0,0 +1,299 @@
+import { EntityDatasets } from '../validators';
+import { ENTITY_LABELS } from '../utils';
+import { AllocationRule, CoRunRule, LoadLimitRule, PhaseWindowRule, PrecedenceOverrideRule } from './allocation';
+import { ConditionLeaf, ConditionNode, ConditionOperator, describeCondition, evaluateCondition, getConditions } from './conditions';
+import { describeEffect, sortByPriority, WRITING_ACTIONS } from './engine';
+import type { Rule } from './index';
+
+export type RuleFindingKind = 'conflict' | 'redundant' | 'shadowed' | 'cycle';
+
+export interface RuleFinding {
+  kind: RuleFindingKind;
+  // Every rule the explanation mentions, field rules and allocation rules alike
+  ruleIds: string[];
+  message: string;
+}
+
+export const RULE_FINDING_LABELS: Record<RuleFindingKind, string> = {
+  conflict: 'Conflicts',
+  redundant: 'Redundant rules',
+  shadowed: 'Shadowed rules',
+  cycle: 'Cycles',
+};
+
+const COMPLEMENTS: Partial<Record<ConditionOperator, ConditionOperator>> = {
+  equals: 'not_equals',
+  not_equals: 'equals',
+  contains: 'not_contains',
+  not_contains: 'contains',
+  is_empty: 'is_not_empty',
+  is_not_empty: 'is_empty',
+};
+
+const sameValue = (a: ConditionLeaf, b: ConditionLeaf) => a.value.trim().toLowerCase() === b.value.trim().toLowerCase();
+
+const areComplements = (a: ConditionLeaf, b: ConditionLeaf) => {
+  return a.field === b.field && COMPLEMENTS[a.operator] === b.operator && (a.operator.startsWith('is_') || sameValue(a, b));
+};
+
+// The single leaf a condition boils down to, with a NOT folded into the operator
+const asSingleLeaf = (node: ConditionNode): ConditionLeaf | null => {
+  if (node.type === 'condition') return node;
+  if (node.children.length !== 1) return null;
+  const leaf = asSingleLeaf(node.children[0]);
+  if (!leaf || !node.negate) return leaf;
+  const operator = COMPLEMENTS[leaf.operator];
+  return operator ? { ...leaf, operator } : null;
+};
+
+// Leaves that must all hold for the node to match: the children of plain AND groups, recursively
+const requiredLeaves = (node: ConditionNode): ConditionLeaf[] => {
+  if (node.type === 'condition') return [node];
+  if (node.negate || (node.combinator === 'or' && node.children.length > 1)) return [];
+  return node.children.flatMap(requiredLeaves);
+};
+
+const ruleLabel = (rule: { id: string; name: string }) => `"${rule.name || rule.id}"`;
+
+const formatRows = (rowIndexes: number[]) => {
+  const shown = rowIndexes.slice(0, 5).join(', ');
+  return rowIndexes.length > 5 ? `${shown} and ${rowIndexes.length - 5} more` : shown;
+};
+
+// Each elementary cycle once, as the list of node IDs in order
+const findCycles = (nodes: string[], next: (id: string) => string[]): string[][] => {
+  const cycles: string[][] = [];
+  const seen = new Set<string>();
+  const visit = (start: string, id: string, path: string[]) => {
+    next(id).forEach((target) => {
+      if (target === start) {
+        const key = [...path].sort().join('|');
+        if (!seen.has(key)) {
+          seen.add(key);
+          cycles.push(path);
+        }
+      } else if (!path.includes(target) && nodes.indexOf(target) > nodes.indexOf(start)) {
+        visit(start, target, [...path, target]);
+      }
+    });
+  };
+  nodes.forEach(id => visit(id, id, [id]));
+  return cycles;
+};
+
+// The effect a rule actually applies when it runs
+const appliedEffect = (rule: Rule) => WRITING_ACTIONS.includes(rule.action) ? rule.effect : undefined;
+
+const analyzeFieldRules = (rules: Rule[], datasets: EntityDatasets, findings: RuleFinding[]) => {
+  const ordered = sortByPriority(rules);
+  const matched = new Map(ordered.map((rule) => {
+    const rows = datasets[rule.entity] || [];
+    const indexes = rows
+      .map((row, index) => evaluateCondition(rule.condition, row as Record<string, unknown>) ? index + 1 : 0)
+      .filter(Boolean);
+    return [rule.id, indexes];
+  }));
+
+  ordered.forEach((rule) => {
+    const leaves = requiredLeaves(rule.condition);
+    leaves.forEach((leaf, i) => {
+      const clash = leaves.slice(i + 1).find(other => areComplements(leaf, other));
+      if (!clash) return;
+      findings.push({
+        kind: 'conflict',
+        ruleIds: [rule.id],
+        message: `Rule ${ruleLabel(rule)} contradicts itself: ${describeCondition(leaf)} and ${describeCondition(clash)} cannot both hold, so it never matches.`,
+      });
+    });
+  });
+
+  ordered.forEach((rule, position) => {
+    const earlier = ordered.slice(0, position).filter(other => other.entity === rule.entity);
+    const label = ENTITY_LABELS[rule.entity].toLowerCase();
+    const rows = matched.get(rule.id) || [];
+
+    earlier.forEach((other) => {
+      const otherRows = matched.get(other.id) || [];
+      const leaf = asSingleLeaf(rule.condition);
+      const otherLeaf = asSingleLeaf(other.condition);
+
+      // "Status must be Active" next to "Status cannot be Active": every row trips exactly one of them
+      if (leaf && otherLeaf && areComplements(leaf, otherLeaf) && rule.action === other.action && rule.action !== 'highlight') {
+        findings.push({
+          kind: 'conflict',
+          ruleIds: [other.id, rule.id],
+          message: `Rules ${ruleLabel(other)} (${describeCondition(otherLeaf)}) and ${ruleLabel(rule)} (${describeCondition(leaf)}) contradict each other, so every ${label} row is ${rule.action === 'reject' ? 'rejected' : 'flagged'} by one of them.`,
+        });
+        return;
+      }
+
+      // Two rules writing different values to the same cell: the later one silently wins
+      const effect = appliedEffect(rule);
+      const otherEffect = appliedEffect(other);
+      if (effect && otherEffect && effect.field === otherEffect.field
+        && describeEffect(effect) !== describeEffect(otherEffect)) {
+        const overlap = rows.filter(row => otherRows.includes(row));
+        if (overlap.length > 0) {
+          findings.push({
+            kind: 'conflict',
+            ruleIds: [other.id, rule.id],
+            message: `Rules ${ruleLabel(other)} and ${ruleLabel(rule)} both write ${effect.field} on ${label} rows ${formatRows(overlap)}: ${ruleLabel(other)} would ${describeEffect(otherEffect)}, then ${ruleLabel(rule)} would ${describeEffect(effect)}.`,
+          });
+        }
+      }
+    });
+
+    if (rows.length === 0) return;
+
+    // Rows rejected earlier never reach this rule
+    const rejecters = earlier.filter(other => other.action === 'reject');
+    const rejected = new Set(rejecters.flatMap(other => matched.get(other.id) || []));
+    if (rejecters.length > 0 && rows.every(row => rejected.has(row))) {
+      const shadowing = rejecters.filter(other => (matched.get(other.id) || []).some(row => rows.includes(row)));
+      findings.push({
+        kind: 'shadowed',
+        ruleIds: [...shadowing.map(other => other.id), rule.id],
+        message: `Rule ${ruleLabel(rule)} never runs on the loaded data: every row it matches is rejected first by ${shadowing.map(ruleLabel).join(' and ')}.`,
+      });
+      return;
+    }
+
+    // Same outcome as an earlier rule that already covers every row this one matches
+    const covering = earlier.find((other) => {
+      if (other.action !== rule.action || other.action === 'reject') return false;
+      const otherEffect = appliedEffect(other);
+      const effect = appliedEffect(rule);
+      if ((otherEffect && describeEffect(otherEffect)) !== (effect && describeEffect(effect))) return false;
+      const otherRows = matched.get(other.id) || [];
+      return rows.every(row => otherRows.includes(row));
+    });
+    if (covering) {
+      const identical = describeCondition(covering.condition) === describeCondition(rule.condition);
+      findings.push({
+        kind: 'redundant',
+        ruleIds: [covering.id, rule.id],
+        message: identical
+          ? `Rule ${ruleLabel(rule)} has the same condition and action as ${ruleLabel(covering)}.`
+          : `Rule ${ruleLabel(rule)} adds nothing on the loaded data: every row it matches is already handled the same way by ${ruleLabel(covering)}.`,
+      });
+    }
+  });
+
+  // A rule whose output feeds another rule's condition, and back again: the outcome depends on run order
+  const writers = ordered.filter(rule => appliedEffect(rule));
+  const feeds = (from: Rule, to: Rule) => from.id !== to.id && from.entity === to.entity
+    && getConditions(to.condition).some(condition => condition.field === appliedEffect(from)?.field);
+  findCycles(writers.map(rule => rule.id), (id) => {
+    const rule = writers.find(candidate => candidate.id === id) as Rule;
+    return writers.filter(other => feeds(rule, other)).map(other => other.id);
+  }).forEach((cycle) => {
+    const names = cycle.map(id => ruleLabel(writers.find(rule => rule.id === id) as Rule));
+    findings.push({
+      kind: 'cycle',
+      ruleIds: cycle,
+      message: `Rules ${names.join(' → ')} → ${names[0]} each change a field the next one tests, so the result depends on the order they run in.`,
+    });
+  });
+};
+
+const intersect = (a: number[], b: number[]) => a.filter(value => b.includes(value));
+
+const analyzeAllocationRules = (rules: AllocationRule[], findings: RuleFinding[]) => {
+  const coRuns = rules.filter((rule): rule is CoRunRule => rule.kind === 'coRun');
+  const windows = rules.filter((rule): rule is PhaseWindowRule => rule.kind === 'phaseWindow');
+
+  // Two windows for one task that share no phase
+  windows.forEach((window, i) => {
+    windows.slice(i + 1).forEach((other) => {
+      if (other.taskId !== window.taskId) return;
+      const common = intersect(window.allowedPhases, other.allowedPhases);
+      if (common.length === 0) {
+        findings.push({
+          kind: 'conflict',
+          ruleIds: [window.id, other.id],
+          message: `Phase windows ${ruleLabel(window)} and ${ruleLabel(other)} give task ${window.taskId} no phase in common (${window.allowedPhases.join(', ')} vs ${other.allowedPhases.join(', ')}).`,
+        });
+        return;
+      }
+      // The wider window allows nothing the narrower one does not already decide
+      const [narrow, wide] = common.length === window.allowedPhases.length ? [window, other] : [other, window];
+      if (common.length !== narrow.allowedPhases.length) return;
+      findings.push({
+        kind: 'redundant',
+        ruleIds: [narrow.id, wide.id],
+        message: `Phase window ${ruleLabel(wide)} adds nothing for task ${window.taskId}: ${ruleLabel(narrow)} already limits it to phases ${narrow.allowedPhases.join(', ')}.`,
+      });
+    });
+  });
+
+  // Co-run groups that share a task must run together as one group, in a phase every member allows
+  const groups: CoRunRule[][] = [];
+  coRuns.forEach((rule) => {
+    const joined = groups.filter(group => group.some(member => member.tasks.some(task => rule.tasks.includes(task))));
+    const merged = [...joined.flat(), rule];
+    joined.forEach(group => groups.splice(groups.indexOf(group), 1));
+    groups.push(merged);
+  });
+  groups.forEach((group) => {
+    const tasks = Array.from(new Set(group.flatMap(rule => rule.tasks)));
+    const applying = windows.filter(window => tasks.includes(window.taskId));
+    if (applying.length === 0) return;
+    const common = applying.reduce((phases, window) => intersect(phases, window.allowedPhases), applying[0].allowedPhases);
+    if (common.length > 0) return;
+    findings.push({
+      kind: 'conflict',
+      ruleIds: [...group.map(rule => rule.id), ...applying.map(window => window.id)],
+      message: `Tasks ${tasks.join(', ')} must run together (${group.map(ruleLabel).join(', ')}), but their phase windows share no phase: ${applying.map(window => `${window.taskId} in ${window.allowedPhases.join(', ')}`).join('; ')}.`,
+    });
+  });
+
+  coRuns.forEach((rule, i) => {
+    coRuns.slice(i + 1).forEach((other) => {
+      if (rule.tasks.length !== other.tasks.length || !rule.tasks.every(task => other.tasks.includes(task))) return;
+      findings.push({
+        kind: 'redundant',
+        ruleIds: [rule.id, other.id],
+        message: `Co-run rules ${ruleLabel(rule)} and ${ruleLabel(other)} list the same tasks.`,
+      });
+    });
+  });
+
+  const limits = rules.filter((rule): rule is LoadLimitRule => rule.kind === 'loadLimit');
+  limits.forEach((rule, i) => {
+    limits.slice(i + 1).forEach((other) => {
+      if (rule.workerGroup !== other.workerGroup) return;
+      findings.push(rule.maxSlotsPerPhase === other.maxSlotsPerPhase
+        ? { kind: 'redundant', ruleIds: [rule.id, other.id], message: `Load limits ${ruleLabel(rule)} and ${ruleLabel(other)} set the same limit for ${rule.workerGroup}.` }
+        : {
+          kind: 'conflict',
+          ruleIds: [rule.id, other.id],
+          message: `Load limits ${ruleLabel(rule)} and ${ruleLabel(other)} give worker group ${rule.workerGroup} different limits (${rule.maxSlotsPerPhase} and ${other.maxSlotsPerPhase} slots per phase).`,
+        });
+    });
+  });
+
+  // Precedence overrides together must still form an order: A > B in one and B > A in another is a cycle
+  const edges = new Map<string, Set<string>>();
+  const overrides = rules.filter((rule): rule is PrecedenceOverrideRule => rule.kind === 'precedenceOverride');
+  overrides.forEach((rule) => {
+    rule.ruleIds.slice(0, -1).forEach((id, i) => {
+      edges.set(id, new Set([...Array.from(edges.get(id) || []), rule.ruleIds[i + 1]]));
+    });
+  });
+  findCycles(Array.from(edges.keys()), id => Array.from(edges.get(id) || [])).forEach((cycle) => {
+    const involved = overrides.filter(rule => cycle.some(id => rule.ruleIds.includes(id)));
+    findings.push({
+      kind: 'cycle',
+      ruleIds: [...involved.map(rule => rule.id), ...cycle],
+      message: `Precedence overrides ${involved.map(ruleLabel).join(', ')} put ${cycle.join(' > ')} > ${cycle[0]}, so no order satisfies them all.`,
+    });
+  });
+};
+
+// Check the active rules against each other; data-dependent findings use the loaded datasets
+export const analyzeRules = (rules: Rule[], allocationRules: AllocationRule[], datasets: EntityDatasets): RuleFinding[] => {
+  const findings: RuleFinding[] = [];
+  analyzeFieldRules(rules.filter(rule => rule.isActive), datasets, findings);
+  analyzeAllocationRules(allocationRules.filter(rule => rule.isActive), findings);
+  return findings;
+};
@@ -0,0 +1,139 @@
+import { displayValue } from '../parsers/coercion';
+
+export type ConditionOperator =
+  | 'equals'
+  | 'not_equals'
+  | 'contains'
+  | 'not_contains'
+  | 'starts_with'
+  | 'ends_with'
+  | 'greater_than'
+  | 'less_than'
+  | 'is_empty'
+  | 'is_not_empty';
+
+export type Combinator = 'and' | 'or';
+
+export interface ConditionLeaf {
+  type: 'condition';
+  id: string;
+  field: string;
+  operator: ConditionOperator;
+  value: string;
+}
+
+// A group combines its children with AND or OR; negate turns it into NOT (...)
+export interface ConditionGroup {
+  type: 'group';
+  id: string;
+  combinator: Combinator;
+  negate: boolean;
+  children: ConditionNode[];
+}
+
+export type ConditionNode = ConditionLeaf | ConditionGroup;
+
+export const OPERATORS: { value: ConditionOperator; label: string }[] = [
+  { value: 'equals', label: 'Equals' },
+  { value: 'not_equals', label: 'Not Equals' },
+  { value: 'contains', label: 'Contains' },
+  { value: 'not_contains', label: 'Not Contains' },
+  { value: 'starts_with', label: 'Starts With' },
+  { value: 'ends_with', label: 'Ends With' },
+  { value: 'greater_than', label: 'Greater Than' },
+  { value: 'less_than', label: 'Less Than' },
+  { value: 'is_empty', label: 'Is Empty' },
+  { value: 'is_not_empty', label: 'Is Not Empty' }
+];
+
+// Operators that ignore the value input
+export const UNARY_OPERATORS: ConditionOperator[] = ['is_empty', 'is_not_empty'];
+
+let nodeCounter = 0;
+const nextId = (prefix: string) => `${prefix}-${Date.now().toString(36)}-${(nodeCounter++).toString(36)}`;
+
+export const createCondition = (field = '', operator: ConditionOperator = 'equals', value = ''): ConditionLeaf => ({
+  type: 'condition',
+  id: nextId('cond'),
+  field,
+  operator,
+  value,
+});
+
+export const createGroup = (children: ConditionNode[] = [createCondition()], combinator: Combinator = 'and'): ConditionGroup => ({
+  type: 'group',
+  id: nextId('group'),
+  combinator,
+  negate: false,
+  children,
+});
+
+// Every leaf in the tree, depth first
+export const getConditions = (node: ConditionNode): ConditionLeaf[] => {
+  return node.type === 'condition' ? [node] : node.children.flatMap(getConditions);
+};
+
+// A group is complete when every leaf names a field and has a value where the operator needs one
+export const isConditionComplete = (node: ConditionNode): boolean => {
+  if (node.type === 'group') return node.children.length > 0 && node.children.every(isConditionComplete);
+  return Boolean(node.field) && (UNARY_OPERATORS.includes(node.operator) || node.value.trim() !== '');
+};
+
+const compareText = (text: string, value: string) => text.toLowerCase() === value.trim().toLowerCase();
+
+export const evaluateLeaf = (condition: ConditionLeaf, row: Record<string, unknown>): boolean => {
+  const cell = row[condition.field];
+  const text = displayValue(row, condition.field);
+  const items = Array.isArray(cell) ? cell.map(String) : null;
+  const value = condition.value.trim();
+
+  switch (condition.operator) {
+    case 'equals': return compareText(text, value);
+    case 'not_equals': return !compareText(text, value);
+    // Lists match whole entries, so "T1" does not match "T12"
+    case 'contains': return items ? items.some(item => compareText(item, value)) : text.toLowerCase().includes(value.toLowerCase());
+    case 'not_contains': return items ? !items.some(item => compareText(item, value)) : !text.toLowerCase().includes(value.toLowerCase());
+    case 'starts_with': return text.toLowerCase().startsWith(value.toLowerCase());
+    case 'ends_with': return text.toLowerCase().endsWith(value.toLowerCase());
+    case 'greater_than': return text !== '' && Number(text) > Number(value);
+    case 'less_than': return text !== '' && Number(text) < Number(value);
+    case 'is_empty': return text.trim() === '' || (items !== null && items.length === 0);
+    case 'is_not_empty': return text.trim() !== '' && (items === null || items.length > 0);
+    default: return false;
+  }
+};
+
+export const evaluateCondition = (node: ConditionNode, row: Record<string, unknown>): boolean => {
+  if (node.type === 'condition') return evaluateLeaf(node, row);
+  // An empty group constrains nothing
+  const result = node.children.length === 0 || (node.combinator === 'and'
+    ? node.children.every(child => evaluateCondition(child, row))
+    : node.children.some(child => evaluateCondition(child, row)));
+  return node.negate ? !result : result;
+};
+
+const OPERATOR_SYMBOLS: Record<ConditionOperator, string> = {
+  equals: '=',
+  not_equals: '≠',
+  contains: 'contains',
+  not_contains: 'does not contain',
+  starts_with: 'starts with',
+  ends_with: 'ends with',
+  greater_than: '>',
+  less_than: '<',
+  is_empty: 'is empty',
+  is_not_empty: 'is not empty',
+};
+
+// "(PriorityLevel > 4 AND GroupTag = 'Enterprise') OR RequestedTaskIDs contains 'T12'"
+export const describeCondition = (node: ConditionNode, nested = false): string => {
+  if (node.type === 'condition') {
+    const operator = OPERATOR_SYMBOLS[node.operator];
+    return UNARY_OPERATORS.includes(node.operator)
+      ? `${node.field || '?'} ${operator}`
+      : `${node.field || '?'} ${operator} '${node.value}'`;
+  }
+  const inner = node.children.map(child => describeCondition(child, true)).join(` ${node.combinator.toUpperCase()} `);
+  if (node.negate) return `NOT (${inner})`;
+  return nested && node.children.length > 1 ? `(${inner})` : inner;
+};
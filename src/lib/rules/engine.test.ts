@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { RAW_VALUES_KEY } from '../utils';
+import { ConditionNode, createCondition, createGroup, evaluateCondition } from './conditions';
+import { previewEffect, runRules, sortByPriority } from './engine';
+import type { Rule } from './index';
+
+const makeRule = (id: string, changes: Partial<Rule>): Rule => ({
+  id,
+  name: id,
+  description: '',
+  entity: 'clients',
+  condition: createGroup([createCondition('GroupTag', 'equals', 'VIP')]),
+  action: 'flag',
+  priority: 1,
+  isActive: true,
+  ...changes,
+});
+
+const rows = [
+  { ClientID: 'C1', GroupTag: 'VIP', PriorityLevel: 5, RequestedTaskIDs: ['T1', 'T12'] },
+  { ClientID: 'C2', GroupTag: 'vip ', PriorityLevel: 2, RequestedTaskIDs: [] },
+  { ClientID: 'C3', GroupTag: 'Standard', PriorityLevel: 3, RequestedTaskIDs: ['T2'] },
+];
+
+describe('evaluateCondition', () => {
+  const matching = (node: ConditionNode) => rows.filter(row => evaluateCondition(node, row)).map(row => row.ClientID);
+
+  it('compares text case-insensitively', () => {
+    expect(matching(createCondition('GroupTag', 'equals', 'vip'))).toEqual(['C1']);
+    expect(matching(createCondition('GroupTag', 'starts_with', 'st'))).toEqual(['C3']);
+  });
+
+  it('compares numbers and skips empty cells', () => {
+    expect(matching(createCondition('PriorityLevel', 'greater_than', '2'))).toEqual(['C1', 'C3']);
+    expect(matching(createCondition('Missing', 'less_than', '10'))).toEqual([]);
+  });
+
+  it('matches whole list entries', () => {
+    expect(matching(createCondition('RequestedTaskIDs', 'contains', 'T1'))).toEqual(['C1']);
+    expect(matching(createCondition('RequestedTaskIDs', 'is_empty'))).toEqual(['C2']);
+  });
+
+  it('combines groups with AND, OR and NOT', () => {
+    const high = createCondition('PriorityLevel', 'greater_than', '4');
+    const standard = createCondition('GroupTag', 'equals', 'Standard');
+    expect(matching(createGroup([high, standard], 'or'))).toEqual(['C1', 'C3']);
+    expect(matching(createGroup([high, standard], 'and'))).toEqual([]);
+    expect(matching({ ...createGroup([high, standard], 'or'), negate: true })).toEqual(['C2']);
+    expect(matching(createGroup([]))).toEqual(['C1', 'C2', 'C3']);
+  });
+});
+
+describe('runRules', () => {
+  it('runs rules in priority order and keeps creation order on ties', () => {
+    const rules = [makeRule('b', { priority: 2 }), makeRule('a', { priority: 1 }), makeRule('c', { priority: 2 })];
+    expect(sortByPriority(rules).map(rule => rule.id)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('flags, highlights and rejects matched rows without touching the input', () => {
+    const input = rows.map(row => ({ ...row }));
+    const result = runRules([
+      makeRule('flag', {}),
+      makeRule('reject', { action: 'reject', condition: createGroup([createCondition('ClientID', 'equals', 'C3')]) }),
+      makeRule('highlight', { action: 'highlight', condition: createGroup([]), priority: 2 }),
+    ], 'clients', input);
+
+    expect(result.flaggedRows).toEqual([1]);
+    expect(result.rejectedRows).toEqual([3]);
+    // A rejected row is skipped by later rules
+    expect(result.highlightedRows).toEqual([1, 2]);
+    expect(result.rows.map(row => (row as Record<string, unknown>).ClientID)).toEqual(['C1', 'C2']);
+    expect(input).toEqual(rows);
+  });
+
+  it('writes effects as text and lets later rules see them', () => {
+    const input = [{ ClientID: 'C1', GroupTag: ' vip', [RAW_VALUES_KEY]: { GroupTag: ' vip' } }];
+    const result = runRules([
+      makeRule('trim', { action: 'transform', condition: createGroup([]), effect: { field: 'GroupTag', operation: 'trim', value: '' } }),
+      makeRule('upper', { action: 'transform', priority: 2, effect: { field: 'GroupTag', operation: 'uppercase', value: '' } }),
+      makeRule('set', { action: 'auto_correct', priority: 3, effect: { field: 'Tier', operation: 'set', value: 'Gold' } }),
+    ], 'clients', input);
+
+    expect(result.changes.map(change => [change.ruleId, change.field, change.after])).toEqual([
+      ['trim', 'GroupTag', 'vip'],
+      ['upper', 'GroupTag', 'VIP'],
+      ['set', 'Tier', 'Gold'],
+    ]);
+    expect(result.rows).toEqual([{ ClientID: 'C1', GroupTag: 'VIP', Tier: 'Gold' }]);
+  });
+
+  it('ignores inactive rules and rules for other entities', () => {
+    const result = runRules([
+      makeRule('inactive', { isActive: false }),
+      makeRule('workers', { entity: 'workers' }),
+    ], 'clients', rows);
+    expect(result.matches).toEqual([]);
+    expect(result.rows).toEqual(rows);
+  });
+
+  it('does not repeat a prefix the cell already has', () => {
+    const effect = { field: 'ClientID', operation: 'prefix' as const, value: 'C' };
+    expect(previewEffect({ ClientID: 'C1' }, effect)).toEqual({ before: 'C1', after: 'C1' });
+    expect(previewEffect({ ClientID: '7' }, effect)).toEqual({ before: '7', after: 'C7' });
+  });
+});
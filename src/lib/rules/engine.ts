@@ -0,0 +1,152 @@
+import { displayValue } from '../parsers/coercion';
+import { EntityType, RAW_VALUES_KEY } from '../utils';
+import { evaluateCondition } from './conditions';
+import type { Rule, RuleAction } from './index';
+
+export type TransformOperation = 'set' | 'trim' | 'uppercase' | 'lowercase' | 'prefix' | 'suffix';
+
+// The cell an auto_correct or transform rule writes to a matched row
+export interface RuleEffect {
+  field: string;
+  operation: TransformOperation;
+  value: string;
+}
+
+// The only actions that apply their effect; the others carry one without using it
+export const WRITING_ACTIONS: RuleAction[] = ['auto_correct', 'transform'];
+
+export interface RuleMatch {
+  ruleId: string;
+  ruleName: string;
+  action: RuleAction;
+  // 1-based, like ValidationError.rowIndex, and always into the rows the run started from
+  rowIndexes: number[];
+}
+
+export interface RuleValueChange {
+  ruleId: string;
+  rowIndex: number;
+  field: string;
+  before: unknown;
+  after: string;
+}
+
+export interface RuleRunResult {
+  entity: EntityType;
+  matches: RuleMatch[];
+  flaggedRows: number[];
+  highlightedRows: number[];
+  rejectedRows: number[];
+  changes: RuleValueChange[];
+  // The dataset with every change written and rejected rows removed; a dry run discards it
+  rows: unknown[];
+}
+
+export const TRANSFORM_OPERATIONS: { value: TransformOperation; label: string }[] = [
+  { value: 'set', label: 'Set To' },
+  { value: 'trim', label: 'Trim Whitespace' },
+  { value: 'uppercase', label: 'Uppercase' },
+  { value: 'lowercase', label: 'Lowercase' },
+  { value: 'prefix', label: 'Add Prefix' },
+  { value: 'suffix', label: 'Add Suffix' }
+];
+
+// Operations that ignore the effect's value
+export const VALUELESS_OPERATIONS: TransformOperation[] = ['trim', 'uppercase', 'lowercase'];
+
+export const describeEffect = (effect: RuleEffect): string => {
+  switch (effect.operation) {
+    case 'set': return `set ${effect.field} to '${effect.value}'`;
+    case 'trim': return `trim ${effect.field}`;
+    case 'uppercase': return `uppercase ${effect.field}`;
+    case 'lowercase': return `lowercase ${effect.field}`;
+    case 'prefix': return `prefix ${effect.field} with '${effect.value}'`;
+    default: return `suffix ${effect.field} with '${effect.value}'`;
+  }
+};
+
+// Effects work on the cell's text, so lists and ranges transform the way they were imported
+const transformText = (text: string, effect: RuleEffect): string => {
+  switch (effect.operation) {
+    case 'set': return effect.value;
+    case 'trim': return text.trim();
+    case 'uppercase': return text.toUpperCase();
+    case 'lowercase': return text.toLowerCase();
+    case 'prefix': return text.startsWith(effect.value) ? text : effect.value + text;
+    default: return text.endsWith(effect.value) ? text : text + effect.value;
+  }
+};
+
+// The matched cell's text before and after the effect, e.g. for a preview
+export const previewEffect = (row: Record<string, unknown>, effect: RuleEffect): { before: string; after: string } => {
+  const before = displayValue(row, effect.field);
+  return { before, after: transformText(before, effect) };
+};
+
+// Written back as text, the same as a grid edit, so validation re-coerces it
+const writeText = (row: Record<string, unknown>, field: string, text: string) => {
+  const updated: Record<string, unknown> = { ...row, [field]: text };
+  const rawValues: Record<string, unknown> = { ...(row[RAW_VALUES_KEY] as Record<string, unknown> | undefined) };
+  delete rawValues[field];
+  if (Object.keys(rawValues).length > 0) updated[RAW_VALUES_KEY] = rawValues;
+  else delete updated[RAW_VALUES_KEY];
+  return updated;
+};
+
+// Lowest priority number runs first; ties keep the order the rules were created in
+export const sortByPriority = (rules: Rule[]): Rule[] => {
+  return rules
+    .map((rule, position) => ({ rule, position }))
+    .sort((a, b) => a.rule.priority - b.rule.priority || a.position - b.position)
+    .map(({ rule }) => rule);
+};
+
+// Run the entity's active rules over its rows. Each rule sees the changes of the rules before it,
+// and a rejected row is skipped by every later rule. The input rows are never modified.
+export const runRules = (rules: Rule[], entity: EntityType, rows: unknown[]): RuleRunResult => {
+  const working = rows.map(row => row as Record<string, unknown>);
+  const rejected = new Set<number>();
+  const flagged = new Set<number>();
+  const highlighted = new Set<number>();
+  const matches: RuleMatch[] = [];
+  const changes: RuleValueChange[] = [];
+
+  sortByPriority(rules.filter(rule => rule.isActive && rule.entity === entity)).forEach((rule) => {
+    const rowIndexes: number[] = [];
+    working.forEach((row, index) => {
+      const rowIndex = index + 1;
+      if (rejected.has(rowIndex) || !evaluateCondition(rule.condition, row)) return;
+      rowIndexes.push(rowIndex);
+
+      switch (rule.action) {
+        case 'reject':
+          rejected.add(rowIndex);
+          break;
+        case 'flag':
+          flagged.add(rowIndex);
+          break;
+        case 'highlight':
+          highlighted.add(rowIndex);
+          break;
+        default: {
+          if (!rule.effect?.field) break;
+          const { before, after } = previewEffect(row, rule.effect);
+          if (after === before) break;
+          changes.push({ ruleId: rule.id, rowIndex, field: rule.effect.field, before: row[rule.effect.field], after });
+          working[index] = writeText(row, rule.effect.field, after);
+        }
+      }
+    });
+    matches.push({ ruleId: rule.id, ruleName: rule.name, action: rule.action, rowIndexes });
+  });
+
+  return {
+    entity,
+    matches,
+    flaggedRows: Array.from(flagged),
+    highlightedRows: Array.from(highlighted),
+    rejectedRows: Array.from(rejected),
+    changes,
+    rows: working.filter((_, index) => !rejected.has(index + 1)),
+  };
+};
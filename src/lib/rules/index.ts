@@ -0,0 +1,39 @@
+import { EntityType } from '../utils';
+import { ConditionGroup } from './conditions';
+import type { RuleEffect } from './engine';
+import type { RuleTestCase } from './sandbox';
+
+export * from './conditions';
+export * from './engine';
+export * from './allocation';
+export * from './priorities';
+export * from './rulesFile';
+export * from './analysis';
+export * from './sandbox';
+export * from './templates';
+
+export type RuleAction = 'flag' | 'auto_correct' | 'reject' | 'highlight' | 'transform';
+
+export interface Rule {
+  id: string;
+  name: string;
+  description: string;
+  entity: EntityType;
+  // Always a group at the root, so a rule can grow from one condition to many
+  condition: ConditionGroup;
+  action: RuleAction;
+  // What auto_correct and transform write; unused by the other actions
+  effect?: RuleEffect;
+  priority: number;
+  isActive: boolean;
+  // Sample rows pinned in the sandbox, re-checked whenever the rule changes
+  testCases?: RuleTestCase[];
+}
+
+export const ACTIONS: { value: RuleAction; label: string }[] = [
+  { value: 'flag', label: 'Flag for Review' },
+  { value: 'auto_correct', label: 'Auto Correct' },
+  { value: 'reject', label: 'Reject Record' },
+  { value: 'highlight', label: 'Highlight' },
+  { value: 'transform', label: 'Transform Value' }
+];
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import {
+  analyzeJudgments,
+  CRITERIA,
+  DEFAULT_PRIORITY_SETTINGS,
+  getJudgment,
+  getMissingCriterionSources,
+  getPriorityWeights,
+  MAX_CONSISTENCY_RATIO,
+  normalizeWeights
+} from './priorities';
+
+const sum = (weights: Record<string, number>) => Object.values(weights).reduce((total, weight) => total + weight, 0);
+
+describe('slider weights', () => {
+  it('normalizes importance to sum to 1', () => {
+    const weights = normalizeWeights({ priorityLevel: 8, requestedTasks: 2, fairness: 0, workloadBalance: 0, phasePreference: 0 });
+    expect(weights.priorityLevel).toBeCloseTo(0.8);
+    expect(weights.requestedTasks).toBeCloseTo(0.2);
+    expect(weights.fairness).toBe(0);
+  });
+
+  it('treats all zeros as equal weights', () => {
+    const weights = normalizeWeights({ priorityLevel: 0, requestedTasks: 0, fairness: 0, workloadBalance: 0, phasePreference: 0 });
+    CRITERIA.forEach(criterion => expect(weights[criterion]).toBeCloseTo(1 / CRITERIA.length));
+  });
+});
+
+describe('pairwise judgments', () => {
+  it('reads a pair from either direction and defaults to equal', () => {
+    const judgments = { 'priorityLevel:fairness': 4 };
+    expect(getJudgment(judgments, 'priorityLevel', 'fairness')).toBe(4);
+    expect(getJudgment(judgments, 'fairness', 'priorityLevel')).toBe(0.25);
+    expect(getJudgment(judgments, 'fairness', 'workloadBalance')).toBe(1);
+  });
+
+  it('gives equal weights and no inconsistency when nothing is judged', () => {
+    const analysis = analyzeJudgments({});
+    CRITERIA.forEach(criterion => expect(analysis.weights[criterion]).toBeCloseTo(0.2));
+    expect(analysis.consistencyRatio).toBeCloseTo(0);
+    expect(analysis.contradictions).toEqual([]);
+  });
+
+  it('recovers the ratios of consistent judgments', () => {
+    // priorityLevel 4×, requestedTasks 2×, the rest 1×
+    const analysis = analyzeJudgments({
+      'priorityLevel:requestedTasks': 2,
+      'priorityLevel:fairness': 4,
+      'priorityLevel:workloadBalance': 4,
+      'priorityLevel:phasePreference': 4,
+      'requestedTasks:fairness': 2,
+      'requestedTasks:workloadBalance': 2,
+      'requestedTasks:phasePreference': 2,
+    });
+    expect(analysis.weights.priorityLevel).toBeCloseTo(4 / 9);
+    expect(analysis.weights.requestedTasks).toBeCloseTo(2 / 9);
+    expect(analysis.weights.fairness).toBeCloseTo(1 / 9);
+    expect(sum(analysis.weights)).toBeCloseTo(1);
+    expect(analysis.consistencyRatio).toBeCloseTo(0);
+  });
+
+  it('flags a strong cycle with a high consistency ratio', () => {
+    const analysis = analyzeJudgments({
+      'priorityLevel:requestedTasks': 9,
+      'requestedTasks:fairness': 9,
+      'priorityLevel:fairness': 1 / 9,
+    });
+    expect(analysis.consistencyRatio).toBeGreaterThan(MAX_CONSISTENCY_RATIO);
+    expect(analysis.contradictions).toEqual([['priorityLevel', 'requestedTasks', 'fairness']]);
+  });
+
+  it('reports a mild cycle even when the ratio is acceptable', () => {
+    const analysis = analyzeJudgments({
+      'priorityLevel:requestedTasks': 2,
+      'requestedTasks:fairness': 2,
+      'priorityLevel:fairness': 1 / 2,
+    });
+    expect(analysis.consistencyRatio).toBeLessThan(MAX_CONSISTENCY_RATIO);
+    expect(analysis.contradictions).toEqual([['priorityLevel', 'requestedTasks', 'fairness']]);
+  });
+
+  it('uses the method the settings choose', () => {
+    const settings = { ...DEFAULT_PRIORITY_SETTINGS, judgments: { 'priorityLevel:fairness': 9 } };
+    expect(getPriorityWeights(settings).priorityLevel).toBeCloseTo(0.2);
+    expect(getPriorityWeights({ ...settings, method: 'pairwise' }).priorityLevel).toBeGreaterThan(0.2);
+  });
+});
+
+describe('getMissingCriterionSources', () => {
+  it('lists criteria whose column is not loaded', () => {
+    const missing = getMissingCriterionSources({
+      clients: [{ PriorityLevel: 3, RequestedTaskIDs: ['T1'] }],
+      workers: [{ WorkerID: 'W1' }],
+      tasks: null,
+    });
+    expect(missing).toEqual(['workloadBalance', 'phasePreference']);
+  });
+});
@@ -0,0 +1,154 @@
+import { EntityDatasets } from '../validators';
+import { EntityType, getFields } from '../utils';
+
+// What the allocation engine trades off when not every request can be met
+export type AllocationCriterion =
+  | 'priorityLevel'
+  | 'requestedTasks'
+  | 'fairness'
+  | 'workloadBalance'
+  | 'phasePreference';
+
+export const ALLOCATION_CRITERIA: {
+  value: AllocationCriterion;
+  label: string;
+  description: string;
+  // The column the engine reads to score the criterion
+  source: { entity: EntityType; field: string };
+}[] = [
+  {
+    value: 'priorityLevel',
+    label: 'PriorityLevel Fulfilment',
+    description: 'Serve high-PriorityLevel clients first',
+    source: { entity: 'clients', field: 'PriorityLevel' }
+  },
+  {
+    value: 'requestedTasks',
+    label: 'Requested-Task Fulfilment',
+    description: 'Complete as many of each client\'s requested tasks as possible',
+    source: { entity: 'clients', field: 'RequestedTaskIDs' }
+  },
+  {
+    value: 'fairness',
+    label: 'Fairness Across Workers',
+    description: 'Spread assignments evenly so no worker is favoured',
+    source: { entity: 'workers', field: 'WorkerID' }
+  },
+  {
+    value: 'workloadBalance',
+    label: 'Workload Balance',
+    description: 'Keep each worker well below their MaxLoadPerPhase',
+    source: { entity: 'workers', field: 'MaxLoadPerPhase' }
+  },
+  {
+    value: 'phasePreference',
+    label: 'Phase Preference',
+    description: 'Schedule tasks in their PreferredPhases',
+    source: { entity: 'tasks', field: 'PreferredPhases' }
+  }
+];
+
+export const CRITERIA = ALLOCATION_CRITERIA.map(criterion => criterion.value);
+
+export type CriterionWeights = Record<AllocationCriterion, number>;
+
+export type WeightingMethod = 'sliders' | 'pairwise';
+
+// "a:b" -> how many times more important a is than b, 1/9 to 9; a comes before b in CRITERIA
+export type PairwiseJudgments = Record<string, number>;
+
+export interface PrioritySettings {
+  method: WeightingMethod;
+  // Importance 0–10 per criterion, as set on the sliders; only the ratios matter
+  importance: CriterionWeights;
+  // Missing pairs count as equally important
+  judgments: PairwiseJudgments;
+}
+
+export const DEFAULT_PRIORITY_SETTINGS: PrioritySettings = {
+  method: 'sliders',
+  importance: { priorityLevel: 5, requestedTasks: 5, fairness: 5, workloadBalance: 5, phasePreference: 5 },
+  judgments: {},
+};
+
+// Scale to sum to 1; all zeros means nothing was preferred, so every criterion counts the same
+export const normalizeWeights = (values: CriterionWeights): CriterionWeights => {
+  const total = CRITERIA.reduce((sum, criterion) => sum + Math.max(0, values[criterion] || 0), 0);
+  return Object.fromEntries(CRITERIA.map(criterion => [
+    criterion,
+    total > 0 ? Math.max(0, values[criterion] || 0) / total : 1 / CRITERIA.length,
+  ])) as CriterionWeights;
+};
+
+export const getPriorityWeights = (settings: PrioritySettings): CriterionWeights => {
+  return settings.method === 'pairwise' ? analyzeJudgments(settings.judgments).weights : normalizeWeights(settings.importance);
+};
+
+export const CRITERION_PAIRS: [AllocationCriterion, AllocationCriterion][] = CRITERIA.flatMap((a, index) =>
+  CRITERIA.slice(index + 1).map(b => [a, b] as [AllocationCriterion, AllocationCriterion])
+);
+
+export const pairKey = (a: AllocationCriterion, b: AllocationCriterion) => `${a}:${b}`;
+
+// How many times more important a is than b, whichever way round the pair was stored
+export const getJudgment = (judgments: PairwiseJudgments, a: AllocationCriterion, b: AllocationCriterion): number => {
+  if (a === b) return 1;
+  const forward = judgments[pairKey(a, b)];
+  if (forward > 0) return forward;
+  const backward = judgments[pairKey(b, a)];
+  return backward > 0 ? 1 / backward : 1;
+};
+
+// Saaty's random consistency index by matrix size
+const RANDOM_INDEX = [0, 0, 0, 0.58, 0.9, 1.12, 1.24, 1.32, 1.41, 1.45, 1.49];
+
+// Judgments above this consistency ratio are too contradictory to trust
+export const MAX_CONSISTENCY_RATIO = 0.1;
+
+export interface PairwiseAnalysis {
+  weights: CriterionWeights;
+  consistencyRatio: number;
+  // Criteria judged a > b and b > c, yet c > a
+  contradictions: [AllocationCriterion, AllocationCriterion, AllocationCriterion][];
+}
+
+// Analytic Hierarchy Process: weights are the principal eigenvector of the comparison matrix,
+// found by power iteration, and the consistency ratio compares its eigenvalue to a random matrix's
+export const analyzeJudgments = (judgments: PairwiseJudgments): PairwiseAnalysis => {
+  const n = CRITERIA.length;
+  const matrix = CRITERIA.map(a => CRITERIA.map(b => getJudgment(judgments, a, b)));
+
+  let vector = CRITERIA.map(() => 1 / n);
+  for (let iteration = 0; iteration < 100; iteration++) {
+    const next = matrix.map(row => row.reduce((sum, value, j) => sum + value * vector[j], 0));
+    const total = next.reduce((sum, value) => sum + value, 0);
+    const normalized = next.map(value => value / total);
+    const delta = normalized.reduce((sum, value, i) => sum + Math.abs(value - vector[i]), 0);
+    vector = normalized;
+    if (delta < 1e-10) break;
+  }
+
+  const lambdaMax = matrix.reduce((sum, row, i) => sum + row.reduce((rowSum, value, j) => rowSum + value * vector[j], 0) / vector[i], 0) / n;
+  const consistencyIndex = n > 2 ? (lambdaMax - n) / (n - 1) : 0;
+  const consistencyRatio = RANDOM_INDEX[n] ? Math.max(0, consistencyIndex / RANDOM_INDEX[n]) : 0;
+
+  const contradictions: PairwiseAnalysis['contradictions'] = [];
+  CRITERIA.forEach((a, i) => CRITERIA.forEach((b, j) => CRITERIA.forEach((c, k) => {
+    // Each cycle is reported once, starting from its earliest criterion
+    if (i >= j || i >= k || j === k) return;
+    if (matrix[i][j] > 1 && matrix[j][k] > 1 && matrix[k][i] > 1) contradictions.push([a, b, c]);
+  })));
+
+  return {
+    weights: Object.fromEntries(CRITERIA.map((criterion, i) => [criterion, vector[i]])) as CriterionWeights,
+    consistencyRatio,
+    contradictions,
+  };
+};
+
+// Criteria whose source column is not in the loaded data; the engine cannot score them
+export const getMissingCriterionSources = (datasets: EntityDatasets): AllocationCriterion[] => {
+  return ALLOCATION_CRITERIA
+    .filter(({ source }) => !getFields(datasets[source.entity] || []).includes(source.field))
+    .map(criterion => criterion.value);
+};
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { AllocationRule } from './allocation';
+import { createCondition, createGroup } from './conditions';
+import type { Rule } from './index';
+import { DEFAULT_PRIORITY_SETTINGS, PrioritySettings } from './priorities';
+import { buildRulesFile, checkRulesFileAgainstData, parseRulesFile, RULES_FILE_VERSION } from './rulesFile';
+
+const rule: Rule = {
+  id: 'r1',
+  name: 'Trim names',
+  description: '',
+  entity: 'clients',
+  condition: createGroup([createCondition('ClientName', 'is_not_empty')]),
+  action: 'transform',
+  effect: { field: 'ClientName', operation: 'trim', value: '' },
+  priority: 2,
+  isActive: true,
+};
+
+const allocationRule: AllocationRule = { id: 'a1', name: 'Pair', isActive: true, kind: 'coRun', tasks: ['T1', 'T2'] };
+
+const priorities: PrioritySettings = {
+  method: 'pairwise',
+  importance: DEFAULT_PRIORITY_SETTINGS.importance,
+  judgments: { 'priorityLevel:fairness': 3 },
+};
+
+describe('rules.json', () => {
+  it('reads back what it writes', () => {
+    const file = buildRulesFile([rule], [allocationRule], priorities);
+    const parsed = parseRulesFile(JSON.stringify(file));
+    expect(parsed).toEqual({ ok: true, file });
+    expect(file.version).toBe(RULES_FILE_VERSION);
+  });
+
+  it('exports rules in priority order and weights that sum to 1', () => {
+    const first = { ...rule, id: 'r0', priority: 1 };
+    const file = buildRulesFile([rule, first], [], priorities);
+    expect(file.rules.map(candidate => candidate.id)).toEqual(['r0', 'r1']);
+    const total = Object.values(file.priorities.weights).reduce((sum, weight) => sum + weight, 0);
+    expect(total).toBeCloseTo(1);
+    expect(file.priorities.weights.priorityLevel).toBeGreaterThan(file.priorities.weights.fairness);
+  });
+
+  it('fills defaults for optional fields', () => {
+    const parsed = parseRulesFile(JSON.stringify({ version: 2 }));
+    expect(parsed.ok && parsed.file.rules).toEqual([]);
+    expect(parsed.ok && parsed.file.priorities.method).toBe(DEFAULT_PRIORITY_SETTINGS.method);
+  });
+
+  it('drops version 1 priorities and keeps the rules', () => {
+    const parsed = parseRulesFile(JSON.stringify({
+      version: 1,
+      rules: [rule],
+      priorities: [{ id: 'p1', name: 'Fairness', weight: 7 }],
+    }));
+    expect(parsed.ok).toBe(true);
+    if (!parsed.ok) return;
+    expect(parsed.file.rules).toEqual([rule]);
+    expect(parsed.file.priorities.importance).toEqual(DEFAULT_PRIORITY_SETTINGS.importance);
+    expect(parsed.file.priorities.weights.fairness).toBeCloseTo(0.2);
+  });
+
+  it('rejects files from a newer version', () => {
+    const parsed = parseRulesFile(JSON.stringify({ version: RULES_FILE_VERSION + 1 }));
+    expect(parsed.ok).toBe(false);
+  });
+
+  it('reports schema errors by path', () => {
+    const broken = { ...rule, condition: createGroup([createCondition('', 'equals', 'x')]) };
+    const parsed = parseRulesFile(JSON.stringify({ version: 2, rules: [broken] }));
+    expect(parsed).toEqual({ ok: false, errors: ['rules[0].condition.children[0].field: A condition must name a field'] });
+  });
+
+  it('reports invalid JSON and files without a version', () => {
+    const invalid = parseRulesFile('{');
+    expect(!invalid.ok && invalid.errors[0]).toMatch(/^Not valid JSON/);
+    const unversioned = parseRulesFile('{}');
+    expect(!unversioned.ok && unversioned.errors[0]).toMatch(/does not look like a rules.json/);
+  });
+
+  it('lists references the loaded data cannot satisfy', () => {
+    const file = buildRulesFile([rule], [allocationRule], priorities);
+    const problems = checkRulesFileAgainstData(file, {
+      clients: [{ ClientID: 'C1' }],
+      workers: null,
+      tasks: [{ TaskID: 'T1' }],
+    });
+    expect(problems).toEqual([
+      'Rule "Trim names" uses ClientName, which the loaded clients data does not have',
+      'Allocation rule "Pair": Unknown task IDs: T2',
+    ]);
+  });
+});
@@ -0,0 +1,199 @@
+import { z } from 'zod';
+import { EntityDatasets } from '../validators';
+import { ENTITY_LABELS, ENTITY_TYPES, EntityType, getFields } from '../utils';
+import { AllocationRule, getAllocationContext, validateAllocationRule } from './allocation';
+import { ConditionGroup, ConditionNode, ConditionOperator, getConditions } from './conditions';
+import type { Rule } from './index';
+import { CriterionWeights, DEFAULT_PRIORITY_SETTINGS, getPriorityWeights, PrioritySettings } from './priorities';
+
+// Bump when a change to the format would make older files read differently.
+// 2: priorities became a weight per allocation criterion instead of free-text items.
+export const RULES_FILE_VERSION = 2;
+
+// The rules.json handed to the allocation engine; the format is documented in the README
+export interface RulesFile {
+  version: number;
+  exportedAt: string;
+  rules: Rule[];
+  allocationRules: AllocationRule[];
+  // The settings from the Priorities tab and the normalized weights (summing to 1) the engine uses
+  priorities: PrioritySettings & { weights: CriterionWeights };
+}
+
+const operators: [ConditionOperator, ...ConditionOperator[]] = [
+  'equals', 'not_equals', 'contains', 'not_contains', 'starts_with',
+  'ends_with', 'greater_than', 'less_than', 'is_empty', 'is_not_empty',
+];
+
+const conditionLeafSchema = z.object({
+  type: z.literal('condition'),
+  id: z.string(),
+  field: z.string().min(1, 'A condition must name a field'),
+  operator: z.enum(operators),
+  value: z.string(),
+});
+
+// Also used to check rules suggested by the AI parser
+export const conditionGroupSchema: z.ZodType<ConditionGroup> = z.lazy(() => z.object({
+  type: z.literal('group'),
+  id: z.string(),
+  combinator: z.enum(['and', 'or']),
+  negate: z.boolean().default(false),
+  children: z.array(z.union([conditionLeafSchema, conditionGroupSchema]) as z.ZodType<ConditionNode>),
+})) as z.ZodType<ConditionGroup>;
+
+const ruleSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  description: z.string().default(''),
+  entity: z.enum(ENTITY_TYPES as [EntityType, ...EntityType[]]),
+  condition: conditionGroupSchema,
+  action: z.enum(['flag', 'auto_correct', 'reject', 'highlight', 'transform']),
+  effect: z.object({
+    field: z.string().min(1),
+    operation: z.enum(['set', 'trim', 'uppercase', 'lowercase', 'prefix', 'suffix']),
+    value: z.string(),
+  }).optional(),
+  priority: z.number(),
+  isActive: z.boolean().default(true),
+  testCases: z.array(z.object({
+    id: z.string(),
+    rowIndex: z.number().int(),
+    row: z.record(z.unknown()),
+    expectMatch: z.boolean(),
+    expectedValue: z.string().optional(),
+  })).optional(),
+});
+
+const allocationBase = {
+  id: z.string().min(1),
+  name: z.string(),
+  isActive: z.boolean().default(true),
+};
+
+export const allocationRuleSchema = z.discriminatedUnion('kind', [
+  z.object({ ...allocationBase, kind: z.literal('coRun'), tasks: z.array(z.string()) }),
+  z.object({
+    ...allocationBase,
+    kind: z.literal('slotRestriction'),
+    groupType: z.enum(['client', 'worker']),
+    group: z.string(),
+    minCommonSlots: z.number().int(),
+  }),
+  z.object({ ...allocationBase, kind: z.literal('loadLimit'), workerGroup: z.string(), maxSlotsPerPhase: z.number().int() }),
+  z.object({ ...allocationBase, kind: z.literal('phaseWindow'), taskId: z.string(), allowedPhases: z.array(z.number().int()) }),
+  z.object({
+    ...allocationBase,
+    kind: z.literal('patternMatch'),
+    regex: z.string(),
+    template: z.string(),
+    params: z.record(z.unknown()).default({}),
+  }),
+  z.object({ ...allocationBase, kind: z.literal('precedenceOverride'), ruleIds: z.array(z.string()) }),
+]);
+
+const criterionWeightsSchema = z.object({
+  priorityLevel: z.number().min(0),
+  requestedTasks: z.number().min(0),
+  fairness: z.number().min(0),
+  workloadBalance: z.number().min(0),
+  phasePreference: z.number().min(0),
+});
+
+const prioritiesSchema = z.object({
+  method: z.enum(['sliders', 'pairwise']).default('sliders'),
+  importance: criterionWeightsSchema.optional(),
+  judgments: z.record(z.number().min(1 / 9).max(9)).default({}),
+  weights: criterionWeightsSchema,
+});
+
+const rulesFileSchema = z.object({
+  version: z.number({ required_error: 'Missing "version"; this does not look like a rules.json' }).int(),
+  exportedAt: z.string().default(''),
+  rules: z.array(ruleSchema).default([]),
+  allocationRules: z.array(allocationRuleSchema).default([]),
+  priorities: prioritiesSchema.optional(),
+});
+
+export const buildRulesFile = (rules: Rule[], allocationRules: AllocationRule[], priorities: PrioritySettings): RulesFile => ({
+  version: RULES_FILE_VERSION,
+  exportedAt: new Date().toISOString(),
+  rules: [...rules].sort((a, b) => a.priority - b.priority),
+  allocationRules,
+  priorities: { ...priorities, weights: getPriorityWeights(priorities) },
+});
+
+// Version 1 priorities were free-text items with no criterion to map to, so they fall back to the defaults
+const readPriorities = (priorities: z.infer<typeof prioritiesSchema> | undefined): RulesFile['priorities'] => {
+  const settings: PrioritySettings = priorities
+    ? { method: priorities.method, importance: priorities.importance || priorities.weights, judgments: priorities.judgments }
+    : DEFAULT_PRIORITY_SETTINGS;
+  return { ...settings, weights: getPriorityWeights(settings) };
+};
+
+// "rules[2].condition.children[0].operator"
+const formatPath = (path: (string | number)[]) => {
+  return path.reduce<string>((text, part) => typeof part === 'number' ? `${text}[${part}]` : text ? `${text}.${part}` : part, '');
+};
+
+// A condition that matches neither a leaf nor a group reports the closer of the two, not "Invalid input"
+const flattenIssues = (issues: z.ZodIssue[]): z.ZodIssue[] => {
+  return issues.flatMap((issue) => {
+    if (issue.code !== 'invalid_union') return [issue];
+    const closest = [...issue.unionErrors].sort((x, y) => x.issues.length - y.issues.length)[0];
+    return closest ? flattenIssues(closest.issues) : [issue];
+  });
+};
+
+export type RulesFileParse = { ok: true; file: RulesFile } | { ok: false; errors: string[] };
+
+// Check a rules.json against the schema; nothing is imported from a file with any error
+export const parseRulesFile = (text: string): RulesFileParse => {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (error) {
+    return { ok: false, errors: [`Not valid JSON: ${(error as Error).message}`] };
+  }
+
+  const legacy = typeof json === 'object' && json !== null && (json as { version?: unknown }).version === 1;
+  const result = rulesFileSchema.safeParse(legacy ? { ...(json as object), priorities: undefined } : json);
+  if (!result.success) {
+    return {
+      ok: false,
+      errors: flattenIssues(result.error.issues).map(issue => issue.path.length > 0 ? `${formatPath(issue.path)}: ${issue.message}` : issue.message),
+    };
+  }
+  if (result.data.version > RULES_FILE_VERSION) {
+    return { ok: false, errors: [`The file is version ${result.data.version}; this app reads up to version ${RULES_FILE_VERSION}`] };
+  }
+  const file: RulesFile = { ...result.data, priorities: readPriorities(result.data.priorities) };
+  return { ok: true, file };
+};
+
+// References in a valid file that the loaded data cannot satisfy: missing columns, task IDs, groups and phases
+export const checkRulesFileAgainstData = (file: RulesFile, datasets: EntityDatasets): string[] => {
+  const problems: string[] = [];
+
+  file.rules.forEach((rule) => {
+    const rows = datasets[rule.entity];
+    const label = ENTITY_LABELS[rule.entity].toLowerCase();
+    if (!rows?.length) {
+      problems.push(`Rule "${rule.name}" applies to ${label}, but no ${label} data is loaded`);
+      return;
+    }
+    const columns = getFields(rows);
+    const used = [...getConditions(rule.condition).map(condition => condition.field), ...(rule.effect ? [rule.effect.field] : [])];
+    Array.from(new Set(used)).filter(field => !columns.includes(field)).forEach((field) => {
+      problems.push(`Rule "${rule.name}" uses ${field}, which the loaded ${label} data does not have`);
+    });
+  });
+
+  const context = getAllocationContext(datasets, [...file.rules, ...file.allocationRules].map(rule => rule.id));
+  file.allocationRules.forEach((rule) => {
+    validateAllocationRule(rule, context).forEach((message) => {
+      problems.push(`Allocation rule "${rule.name || rule.id}": ${message}`);
+    });
+  });
+  return problems;
+};
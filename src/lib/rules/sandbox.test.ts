@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { createCondition, createGroup } from './conditions';
+import type { Rule } from './index';
+import { createTestCase, getRuleFields, previewRule, runTestCases, traceCondition } from './sandbox';
+
+const vip = createCondition('GroupTag', 'equals', 'VIP');
+const high = createCondition('PriorityLevel', 'greater_than', '3');
+
+const rule: Rule = {
+  id: 'r1',
+  name: 'Upper names',
+  description: '',
+  entity: 'clients',
+  condition: createGroup([vip, high], 'or'),
+  action: 'transform',
+  effect: { field: 'ClientName', operation: 'uppercase', value: '' },
+  priority: 1,
+  isActive: true,
+};
+
+const rows = [
+  { ClientName: 'acme', GroupTag: 'VIP', PriorityLevel: 1 },
+  { ClientName: 'globex', GroupTag: 'Standard', PriorityLevel: 2 },
+];
+
+describe('sandbox', () => {
+  it('traces every node of the condition', () => {
+    expect(traceCondition(rule.condition, rows[0])).toEqual({ [vip.id]: true, [high.id]: false, [rule.condition.id]: true });
+  });
+
+  it('previews matches and the effect on matched rows only', () => {
+    const preview = previewRule(rule, rows);
+    expect(preview.map(entry => [entry.rowIndex, entry.matched, entry.before, entry.after])).toEqual([
+      [1, true, 'acme', 'ACME'],
+      [2, false, undefined, undefined],
+    ]);
+  });
+
+  it('lists the fields the rule reads and writes', () => {
+    expect(getRuleFields(rule)).toEqual(['GroupTag', 'PriorityLevel', 'ClientName']);
+  });
+
+  it('passes pinned rows until the rule changes what they do', () => {
+    const testCases = [createTestCase(rule, 1, rows[0]), createTestCase(rule, 2, rows[1])];
+    expect(testCases.map(testCase => [testCase.expectMatch, testCase.expectedValue])).toEqual([[true, 'ACME'], [false, undefined]]);
+    expect(runTestCases({ ...rule, testCases }).every(result => result.passed)).toBe(true);
+
+    const narrowed = runTestCases({ ...rule, condition: createGroup([high]), testCases });
+    expect(narrowed.map(result => [result.passed, result.message])).toEqual([
+      [false, 'Expected to match, but no longer does'],
+      [true, 'Does not match, as expected'],
+    ]);
+
+    const lowered = runTestCases({ ...rule, effect: { field: 'ClientName', operation: 'lowercase', value: '' }, testCases });
+    expect(lowered[0]).toMatchObject({ passed: false, actualValue: 'acme', message: 'Expected "ACME", got "acme"' });
+  });
+
+  it('keeps a snapshot of the pinned row', () => {
+    const row = { ...rows[0] };
+    const testCase = createTestCase(rule, 1, row);
+    row.GroupTag = 'Standard';
+    expect(testCase.row.GroupTag).toBe('VIP');
+  });
+});
@@ -0,0 +1,103 @@
+import { ConditionNode, evaluateCondition, evaluateLeaf, getConditions } from './conditions';
+import { previewEffect } from './engine';
+import type { Rule } from './index';
+
+// A row pinned from the sandbox, with what the rule did to it at the time
+export interface RuleTestCase {
+  id: string;
+  // 1-based row the sample came from; the row itself is a snapshot and does not follow later edits
+  rowIndex: number;
+  row: Record<string, unknown>;
+  expectMatch: boolean;
+  // The effect's output for the row, for auto_correct and transform rules
+  expectedValue?: string;
+}
+
+export interface RuleTestResult {
+  testCase: RuleTestCase;
+  passed: boolean;
+  matched: boolean;
+  actualValue?: string;
+  message: string;
+}
+
+// Whether each node of the condition tree (leaves and groups, by ID) holds for the row
+export const traceCondition = (node: ConditionNode, row: Record<string, unknown>): Record<string, boolean> => {
+  const trace: Record<string, boolean> = {};
+  const visit = (current: ConditionNode) => {
+    if (current.type === 'condition') {
+      trace[current.id] = evaluateLeaf(current, row);
+      return;
+    }
+    current.children.forEach(visit);
+    trace[current.id] = evaluateCondition(current, row);
+  };
+  visit(node);
+  return trace;
+};
+
+export interface RulePreviewRow {
+  rowIndex: number;
+  row: Record<string, unknown>;
+  matched: boolean;
+  trace: Record<string, boolean>;
+  before?: string;
+  after?: string;
+}
+
+// Every row with its condition trace, plus the effect's before and after for rows the rule matches
+export const previewRule = (rule: Rule, rows: unknown[]): RulePreviewRow[] => {
+  return rows.map((value, index) => {
+    const row = value as Record<string, unknown>;
+    const trace = traceCondition(rule.condition, row);
+    const matched = trace[rule.condition.id];
+    const effect = matched && rule.effect?.field ? previewEffect(row, rule.effect) : null;
+    return { rowIndex: index + 1, row, matched, trace, before: effect?.before, after: effect?.after };
+  });
+};
+
+// Fields the condition and effect read, for showing the relevant part of a row
+export const getRuleFields = (rule: Rule): string[] => {
+  const fields = getConditions(rule.condition).map(condition => condition.field);
+  if (rule.effect?.field) fields.push(rule.effect.field);
+  return Array.from(new Set(fields.filter(Boolean)));
+};
+
+export const createTestCase = (rule: Rule, rowIndex: number, row: Record<string, unknown>): RuleTestCase => {
+  const matched = evaluateCondition(rule.condition, row);
+  return {
+    id: `${rule.id}:${rowIndex}:${Date.now().toString(36)}`,
+    rowIndex,
+    row: { ...row },
+    expectMatch: matched,
+    expectedValue: matched && rule.effect?.field ? previewEffect(row, rule.effect).after : undefined,
+  };
+};
+
+// Re-check pinned rows against the rule as it is now
+export const runTestCases = (rule: Rule): RuleTestResult[] => {
+  return (rule.testCases || []).map((testCase) => {
+    const matched = evaluateCondition(rule.condition, testCase.row);
+    const actualValue = matched && rule.effect?.field ? previewEffect(testCase.row, rule.effect).after : undefined;
+
+    if (matched !== testCase.expectMatch) {
+      return {
+        testCase,
+        passed: false,
+        matched,
+        actualValue,
+        message: testCase.expectMatch ? 'Expected to match, but no longer does' : 'Expected not to match, but now does',
+      };
+    }
+    if (testCase.expectedValue !== undefined && actualValue !== testCase.expectedValue) {
+      return {
+        testCase,
+        passed: false,
+        matched,
+        actualValue,
+        message: `Expected "${testCase.expectedValue}", got "${actualValue ?? ''}"`,
+      };
+    }
+    return { testCase, passed: true, matched, actualValue, message: matched ? 'Matches as expected' : 'Does not match, as expected' };
+  });
+};
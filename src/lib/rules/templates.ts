@@ -0,0 +1,373 @@
+import { z } from 'zod';
+import { EntityType, ENTITY_TYPES, normalizeKey, similarity } from '../utils';
+import { ConditionGroup, ConditionNode, ConditionOperator, createCondition, createGroup, getConditions } from './conditions';
+import { conditionGroupSchema } from './rulesFile';
+import type { Rule } from './index';
+
+// A {{key}} in a template; column placeholders bind to one of the dataset's columns, value placeholders to text
+export interface TemplatePlaceholder {
+  key: string;
+  label: string;
+  type: 'column' | 'value';
+  // Column names tried first when binding, most likely first
+  candidates: string[];
+  defaultValue?: string;
+}
+
+export type RuleTemplateBody =
+  | { type: 'rule'; rule: Pick<Rule, 'name' | 'description' | 'condition' | 'action' | 'effect'> }
+  | { type: 'group'; condition: ConditionGroup };
+
+export interface RuleTemplate {
+  id: string;
+  name: string;
+  description: string;
+  // Unset for templates that fit any entity
+  entity?: EntityType;
+  builtIn?: boolean;
+  placeholders: TemplatePlaceholder[];
+  body: RuleTemplateBody;
+}
+
+// Placeholder key -> column name or value
+export type TemplateBindings = Record<string, string>;
+
+export type AppliedTemplate =
+  | { type: 'rule'; rule: Rule }
+  | { type: 'group'; condition: ConditionGroup };
+
+const column = (key: string, label: string, candidates: string[]): TemplatePlaceholder => ({ key, label, type: 'column', candidates });
+const value = (key: string, label: string, defaultValue: string): TemplatePlaceholder => ({ key, label, type: 'value', candidates: [], defaultValue });
+
+const leaf = (field: string, operator: ConditionOperator, text = '') => createCondition(field, operator, text);
+
+export const BUILT_IN_TEMPLATES: RuleTemplate[] = [
+  {
+    id: 'builtin-email-valid',
+    name: 'Email must be valid',
+    description: 'Flags filled-in email addresses without an @ or a dot',
+    builtIn: true,
+    placeholders: [column('email', 'Email column', ['Email', 'EmailAddress', 'ContactEmail'])],
+    body: {
+      type: 'rule',
+      rule: {
+        name: 'Email must be valid',
+        description: '{{email}} must look like an email address',
+        condition: createGroup([
+          leaf('{{email}}', 'is_not_empty'),
+          createGroup([leaf('{{email}}', 'not_contains', '@'), leaf('{{email}}', 'not_contains', '.')], 'or'),
+        ]),
+        action: 'flag',
+      },
+    },
+  },
+  {
+    id: 'builtin-required',
+    name: 'Column must be filled in',
+    description: 'Flags rows where the column is empty',
+    builtIn: true,
+    placeholders: [column('column', 'Column', [])],
+    body: {
+      type: 'rule',
+      rule: { name: '{{column}} is required', description: '', condition: createGroup([leaf('{{column}}', 'is_empty')]), action: 'flag' },
+    },
+  },
+  {
+    id: 'builtin-trim',
+    name: 'Trim whitespace',
+    description: 'Removes leading and trailing spaces from a column',
+    builtIn: true,
+    placeholders: [column('column', 'Column', [])],
+    body: {
+      type: 'rule',
+      rule: {
+        name: 'Trim {{column}}',
+        description: '',
+        condition: createGroup([leaf('{{column}}', 'is_not_empty')]),
+        action: 'transform',
+        effect: { field: '{{column}}', operation: 'trim', value: '' },
+      },
+    },
+  },
+  {
+    id: 'builtin-priority-range',
+    name: 'PriorityLevel between 1 and 5',
+    description: 'Flags clients whose priority is outside the range',
+    entity: 'clients',
+    builtIn: true,
+    placeholders: [
+      column('priority', 'Priority column', ['PriorityLevel', 'Priority']),
+      value('min', 'Lowest allowed', '1'),
+      value('max', 'Highest allowed', '5'),
+    ],
+    body: {
+      type: 'rule',
+      rule: {
+        name: '{{priority}} between {{min}} and {{max}}',
+        description: '',
+        condition: createGroup([leaf('{{priority}}', 'less_than', '{{min}}'), leaf('{{priority}}', 'greater_than', '{{max}}')], 'or'),
+        action: 'flag',
+      },
+    },
+  },
+  {
+    id: 'builtin-requested-tasks',
+    name: 'Client requests at least one task',
+    description: 'Flags clients with no requested tasks',
+    entity: 'clients',
+    builtIn: true,
+    placeholders: [column('tasks', 'Requested tasks column', ['RequestedTaskIDs'])],
+    body: {
+      type: 'rule',
+      rule: { name: 'No requested tasks', description: '', condition: createGroup([leaf('{{tasks}}', 'is_empty')]), action: 'flag' },
+    },
+  },
+  {
+    id: 'builtin-worker-overloaded',
+    name: 'No worker overloaded',
+    description: 'Flags workers who take on more per phase than the limit',
+    entity: 'workers',
+    builtIn: true,
+    placeholders: [column('load', 'Load column', ['MaxLoadPerPhase']), value('limit', 'Most slots per phase', '3')],
+    body: {
+      type: 'rule',
+      rule: { name: 'Worker overloaded', description: '', condition: createGroup([leaf('{{load}}', 'greater_than', '{{limit}}')]), action: 'flag' },
+    },
+  },
+  {
+    id: 'builtin-worker-skills',
+    name: 'Worker has skills',
+    description: 'Flags workers with no skills listed',
+    entity: 'workers',
+    builtIn: true,
+    placeholders: [column('skills', 'Skills column', ['Skills'])],
+    body: {
+      type: 'rule',
+      rule: { name: 'No skills listed', description: '', condition: createGroup([leaf('{{skills}}', 'is_empty')]), action: 'flag' },
+    },
+  },
+  {
+    id: 'builtin-task-duration',
+    name: 'Duration within the phases',
+    description: 'Flags tasks that take longer than the number of phases',
+    entity: 'tasks',
+    builtIn: true,
+    placeholders: [column('duration', 'Duration column', ['Duration']), value('phases', 'Number of phases', '5')],
+    body: {
+      type: 'rule',
+      rule: { name: 'Task too long', description: '', condition: createGroup([leaf('{{duration}}', 'greater_than', '{{phases}}')]), action: 'flag' },
+    },
+  },
+  {
+    id: 'builtin-task-skills',
+    name: 'Task needs skills',
+    description: 'Flags tasks with no required skills',
+    entity: 'tasks',
+    builtIn: true,
+    placeholders: [column('skills', 'Required skills column', ['RequiredSkills'])],
+    body: {
+      type: 'rule',
+      rule: { name: 'No required skills', description: '', condition: createGroup([leaf('{{skills}}', 'is_empty')]), action: 'flag' },
+    },
+  },
+];
+
+const PLACEHOLDER_PATTERN = /\{\{(\w+)\}\}/g;
+
+const fill = (text: string, bindings: TemplateBindings) => {
+  return text.replace(PLACEHOLDER_PATTERN, (match, key: string) => bindings[key] ?? match);
+};
+
+// Applied templates get fresh node IDs so two copies never share one
+const fillNode = (node: ConditionNode, bindings: TemplateBindings): ConditionNode => {
+  if (node.type === 'condition') return createCondition(fill(node.field, bindings), node.operator, fill(node.value, bindings));
+  return { ...createGroup(node.children.map(child => fillNode(child, bindings)), node.combinator), negate: node.negate };
+};
+
+let templateCounter = 0;
+const nextTemplateId = () => `template-${Date.now().toString(36)}-${(templateCounter++).toString(36)}`;
+
+const toKey = (field: string) => field.replace(/\W+/g, '_').replace(/^_+|_+$/g, '') || 'column';
+
+// Every column the condition reads becomes a placeholder that defaults to the same column name
+const placeholderFields = (condition: ConditionGroup, fields: string[]) => {
+  const used = Array.from(new Set([...getConditions(condition).map(node => node.field), ...fields].filter(Boolean)));
+  const bindings: TemplateBindings = {};
+  const placeholders = used.map((field) => {
+    let key = toKey(field);
+    while (key in bindings) key += '_';
+    bindings[key] = field;
+    return column(key, field, [field]);
+  });
+  const byField = Object.fromEntries(Object.entries(bindings).map(([key, field]) => [field, `{{${key}}}`]));
+  const replace = (node: ConditionNode): ConditionNode => node.type === 'condition'
+    ? { ...node, field: byField[node.field] ?? node.field }
+    : { ...node, children: node.children.map(replace) };
+  return { placeholders, condition: replace(condition) as ConditionGroup, byField };
+};
+
+export const createRuleTemplate = (rule: Rule): RuleTemplate => {
+  const { placeholders, condition, byField } = placeholderFields(rule.condition, rule.effect ? [rule.effect.field] : []);
+  return {
+    id: nextTemplateId(),
+    name: rule.name,
+    description: rule.description,
+    entity: rule.entity,
+    placeholders,
+    body: {
+      type: 'rule',
+      rule: {
+        name: rule.name,
+        description: rule.description,
+        condition,
+        action: rule.action,
+        effect: rule.effect ? { ...rule.effect, field: byField[rule.effect.field] ?? rule.effect.field } : undefined,
+      },
+    },
+  };
+};
+
+export const createGroupTemplate = (group: ConditionGroup, entity: EntityType, name: string): RuleTemplate => {
+  const { placeholders, condition } = placeholderFields(group, []);
+  return { id: nextTemplateId(), name, description: '', entity, placeholders, body: { type: 'group', condition } };
+};
+
+export const getTemplatesForEntity = (templates: RuleTemplate[], entity: EntityType): RuleTemplate[] => {
+  return templates.filter(template => !template.entity || template.entity === entity);
+};
+
+// Bind each column placeholder to the dataset's best matching column: a listed candidate, then the closest name
+export const suggestBindings = (template: RuleTemplate, columns: string[]): TemplateBindings => {
+  const bindings: TemplateBindings = {};
+  template.placeholders.forEach((placeholder) => {
+    if (placeholder.type === 'value') {
+      bindings[placeholder.key] = placeholder.defaultValue ?? '';
+      return;
+    }
+    const exact = placeholder.candidates
+      .map(candidate => columns.find(name => normalizeKey(name) === normalizeKey(candidate)))
+      .find(Boolean);
+    if (exact) {
+      bindings[placeholder.key] = exact;
+      return;
+    }
+    const targets = [...placeholder.candidates, placeholder.key];
+    const scored = columns
+      .map(name => ({ name, score: Math.max(...targets.map(target => similarity(normalizeKey(name), normalizeKey(target)))) }))
+      .sort((a, b) => b.score - a.score);
+    bindings[placeholder.key] = scored[0] && scored[0].score >= 0.6 ? scored[0].name : '';
+  });
+  return bindings;
+};
+
+// Labels of placeholders that are unbound or bound to a column the dataset does not have
+export const getBindingProblems = (template: RuleTemplate, bindings: TemplateBindings, columns: string[]): string[] => {
+  return template.placeholders.flatMap((placeholder) => {
+    const bound = bindings[placeholder.key] ?? '';
+    if (!bound.trim()) return [`${placeholder.label} is not set`];
+    if (placeholder.type === 'column' && !columns.includes(bound)) return [`${placeholder.label}: the data has no column ${bound}`];
+    return [];
+  });
+};
+
+export const applyTemplate = (template: RuleTemplate, bindings: TemplateBindings, entity: EntityType): AppliedTemplate => {
+  const condition = fillNode(template.body.type === 'rule' ? template.body.rule.condition : template.body.condition, bindings) as ConditionGroup;
+  if (template.body.type === 'group') return { type: 'group', condition };
+
+  const { rule } = template.body;
+  return {
+    type: 'rule',
+    rule: {
+      id: Date.now().toString(),
+      name: fill(rule.name, bindings),
+      description: fill(rule.description, bindings),
+      entity,
+      condition,
+      action: rule.action,
+      effect: rule.effect
+        ? { ...rule.effect, field: fill(rule.effect.field, bindings), value: fill(rule.effect.value, bindings) }
+        : undefined,
+      priority: 1,
+      isActive: true,
+    },
+  };
+};
+
+const templateSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  description: z.string().default(''),
+  entity: z.enum(ENTITY_TYPES as [EntityType, ...EntityType[]]).optional(),
+  placeholders: z.array(z.object({
+    key: z.string().regex(/^\w+$/),
+    label: z.string(),
+    type: z.enum(['column', 'value']),
+    candidates: z.array(z.string()).default([]),
+    defaultValue: z.string().optional(),
+  })),
+  body: z.discriminatedUnion('type', [
+    z.object({
+      type: z.literal('rule'),
+      rule: z.object({
+        name: z.string(),
+        description: z.string().default(''),
+        condition: conditionGroupSchema,
+        action: z.enum(['flag', 'auto_correct', 'reject', 'highlight', 'transform']),
+        effect: z.object({
+          field: z.string().min(1),
+          operation: z.enum(['set', 'trim', 'uppercase', 'lowercase', 'prefix', 'suffix']),
+          value: z.string(),
+        }).optional(),
+      }),
+    }),
+    z.object({ type: z.literal('group'), condition: conditionGroupSchema }),
+  ]),
+});
+
+// The shareable library file: saved templates only, built-ins ship with the app
+export const RULE_LIBRARY_VERSION = 1;
+
+export const buildRuleLibrary = (templates: RuleTemplate[]) => ({
+  version: RULE_LIBRARY_VERSION,
+  templates: templates.filter(template => !template.builtIn),
+});
+
+// Templates from a shared library file, or the reason it could not be read
+export const parseRuleLibrary = (text: string): { ok: true; templates: RuleTemplate[] } | { ok: false; error: string } => {
+  try {
+    const result = z.object({ version: z.number(), templates: z.array(templateSchema) }).safeParse(JSON.parse(text));
+    if (!result.success) {
+      const issue = result.error.issues[0];
+      return { ok: false, error: `${issue.path.join('.') || 'file'}: ${issue.message}` };
+    }
+    if (result.data.version > RULE_LIBRARY_VERSION) {
+      return { ok: false, error: `Library version ${result.data.version} is newer than this app supports` };
+    }
+    return { ok: true, templates: result.data.templates.map(template => ({ ...template, builtIn: false })) };
+  } catch {
+    return { ok: false, error: 'The file is not valid JSON' };
+  }
+};
+
+const STORAGE_KEY = 'digitalz.ruleTemplates';
+
+// Saved templates persist in the browser so every project can reuse them
+export const loadSavedTemplates = (): RuleTemplate[] => {
+  if (typeof window === 'undefined') return [];
+  // Templates are read one at a time so that one bad entry does not lose the rest on the next save
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(STORAGE_KEY) || '{}');
+    const candidates: unknown[] = Array.isArray(stored?.templates) ? stored.templates : [];
+    return candidates.flatMap((candidate) => {
+      const result = templateSchema.safeParse(candidate);
+      return result.success ? [{ ...result.data, builtIn: false }] : [];
+    });
+  } catch {
+    return [];
+  }
+};
+
+export const saveSavedTemplates = (templates: RuleTemplate[]) => {
+  if (typeof window === 'undefined') return;
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(buildRuleLibrary(templates)));
+};
@@ -0,0 +1,47 @@
+// Shared helpers for the three datasets handled by the app
+
+export type EntityType = 'clients' | 'workers' | 'tasks';
+
+export const ENTITY_TYPES: EntityType[] = ['clients', 'workers', 'tasks'];
+
+export const ENTITY_LABELS: Record<EntityType, string> = {
+  clients: 'Clients',
+  workers: 'Workers',
+  tasks: 'Tasks',
+};
+
+// Lowercase and strip spaces, underscores and dashes so "Client Id" matches "client_id"
+export const normalizeKey = (str: string) => str.replace(/[\s_-]/g, '').toLowerCase();
+
+const levenshtein = (a: string, b: string) => {
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(
+        previous[j] + 1,
+        previous[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+};
+
+// 1 for identical strings, falling towards 0 as the edit distance grows
+export const similarity = (a: string, b: string) => {
+  if (!a && !b) return 1;
+  return 1 - levenshtein(a, b) / Math.max(a.length, b.length);
+};
+
+// Key under which parsers keep the original text of coerced cells; never a real column
+export const RAW_VALUES_KEY = '__raw';
+
+// Column names of a dataset, taken from its first row
+export const getFields = (data: unknown[]): string[] => {
+  if (!data || data.length === 0) return [];
+  return Object.keys(data[0] as Record<string, unknown>).filter(key => key !== RAW_VALUES_KEY);
+};
@@ -0,0 +1,106 @@
+import { coerceValue } from '../parsers/coercion';
+import type { ValidationSeverity } from './profiles';
+import { EntityDatasets, readId, readList, RowReference } from './references';
+
+export type CapacityCheck = 'phase_overload' | 'worker_overcommitted';
+
+// Demand and supply of worker slots in one phase
+export interface PhaseCapacity {
+  phase: number;
+  // Sum of Duration over tasks that list the phase in PreferredPhases
+  demand: number;
+  // Sum of MaxLoadPerPhase over workers with the phase in AvailableSlots
+  capacity: number;
+  tasks: RowReference[];
+  workers: RowReference[];
+}
+
+export interface CapacityIssue extends RowReference {
+  check: CapacityCheck;
+  // 'error' until a validation profile is applied
+  severity: ValidationSeverity;
+  field: string;
+  value: unknown;
+  message: string;
+  related: RowReference[];
+}
+
+export interface CapacityAnalysis {
+  phases: PhaseCapacity[];
+  issues: CapacityIssue[];
+}
+
+const readInteger = (row: Record<string, unknown>, field: string, fallback: number) => {
+  const value = row[field];
+  if (value === undefined || value === null || value === '') return fallback;
+  const result = coerceValue(value, 'integer');
+  return result.ok ? result.value as number : fallback;
+};
+
+// Per-phase feasibility. A task counts its full Duration against every phase it prefers,
+// so an overloaded phase means the preferences as written cannot all be met there.
+export const analyzeCapacity = (datasets: EntityDatasets): CapacityAnalysis => {
+  // Without workers every phase would look overloaded; that is reported as missing data instead
+  if (!datasets.workers) return { phases: [], issues: [] };
+  const workers = datasets.workers;
+  const tasks = datasets.tasks || [];
+  const phases = new Map<number, PhaseCapacity>();
+  const issues: CapacityIssue[] = [];
+
+  const phaseEntry = (phase: number) => {
+    if (!phases.has(phase)) phases.set(phase, { phase, demand: 0, capacity: 0, tasks: [], workers: [] });
+    return phases.get(phase) as PhaseCapacity;
+  };
+
+  workers.forEach((worker, index) => {
+    const row = worker as Record<string, unknown>;
+    const reference = { entity: 'workers' as const, rowIndex: index + 1 };
+    const slots = Array.from(new Set(readList(row, 'AvailableSlots', 'numberList').map(Number)));
+    const maxLoad = readInteger(row, 'MaxLoadPerPhase', 1);
+
+    slots.forEach((phase) => {
+      const entry = phaseEntry(phase);
+      entry.capacity += maxLoad;
+      entry.workers.push(reference);
+    });
+
+    if (maxLoad > slots.length) {
+      issues.push({
+        ...reference,
+        check: 'worker_overcommitted',
+        severity: 'error',
+        field: 'MaxLoadPerPhase',
+        value: maxLoad,
+        message: `Worker ${readId(row, 'WorkerID') || `row ${index + 1}`} has MaxLoadPerPhase ${maxLoad} but only ${slots.length} available slot${slots.length === 1 ? '' : 's'}`,
+        related: [],
+      });
+    }
+  });
+
+  tasks.forEach((task, index) => {
+    const row = task as Record<string, unknown>;
+    const duration = readInteger(row, 'Duration', 1);
+    const preferred = Array.from(new Set(readList(row, 'PreferredPhases', 'phaseList').map(Number)));
+    preferred.forEach((phase) => {
+      const entry = phaseEntry(phase);
+      entry.demand += duration;
+      entry.tasks.push({ entity: 'tasks', rowIndex: index + 1 });
+    });
+  });
+
+  const sorted = Array.from(phases.values()).sort((a, b) => a.phase - b.phase);
+  sorted.filter(entry => entry.demand > entry.capacity).forEach((entry) => {
+    issues.push({
+      entity: 'tasks',
+      rowIndex: entry.tasks[0].rowIndex,
+      check: 'phase_overload',
+      severity: 'error',
+      field: 'PreferredPhases',
+      value: entry.phase,
+      message: `Phase ${entry.phase} is overloaded: tasks preferring it need ${entry.demand} slot${entry.demand === 1 ? '' : 's'} but workers offer ${entry.capacity}`,
+      related: [...entry.tasks.slice(1), ...entry.workers],
+    });
+  });
+
+  return { phases: sorted, issues };
+};
@@ -0,0 +1,135 @@
+import { displayValue } from '../parsers/coercion';
+import { getFields, RAW_VALUES_KEY, similarity } from '../utils';
+
+export type DuplicateMode = 'exact' | 'fuzzy';
+
+export type DuplicateResolution = 'keep' | 'merge' | 'delete';
+
+export interface DuplicateGroup {
+  // Shared primary key in exact mode, the first row's compared values in fuzzy mode
+  key: string;
+  // 1-based, in dataset order
+  rowIndexes: number[];
+  // Lowest similarity among the matching pairs in the group; 1 for exact matches
+  score: number;
+}
+
+export interface DuplicateOptions {
+  mode: DuplicateMode;
+  primaryKey: string;
+  // 0–1, fuzzy mode only
+  threshold?: number;
+  // Columns compared in fuzzy mode; defaults to getDuplicateFields
+  fields?: string[];
+}
+
+export const DEFAULT_DUPLICATE_THRESHOLD = 0.85;
+
+// "  Acme  Corp" and "acme corp" compare as equal
+const normalizeText = (value: string) => value.trim().replace(/\s+/g, ' ').toLowerCase();
+
+const isBlank = (value: unknown) => value === undefined || value === null || value === '';
+
+// Names and contact details identify a record; IDs, numbers and lists mostly add noise
+export const getDuplicateFields = (rows: unknown[], primaryKey: string): string[] => {
+  const columns = getFields(rows).filter(column => column !== primaryKey);
+  const identifying = columns.filter(column => /name$|email|phone|mobile/i.test(column));
+  return identifying.length > 0 ? identifying : columns;
+};
+
+const findExact = (rows: unknown[], primaryKey: string): DuplicateGroup[] => {
+  const byKey = new Map<string, number[]>();
+  rows.forEach((row, index) => {
+    const key = String((row as Record<string, unknown>)[primaryKey] ?? '').trim();
+    if (!key) return;
+    byKey.set(key, [...(byKey.get(key) || []), index + 1]);
+  });
+  return Array.from(byKey.entries())
+    .filter(([, rowIndexes]) => rowIndexes.length > 1)
+    .map(([key, rowIndexes]) => ({ key, rowIndexes, score: 1 }));
+};
+
+const findFuzzy = (rows: unknown[], fields: string[], threshold: number): DuplicateGroup[] => {
+  if (fields.length === 0) return [];
+  const values = rows.map(row => fields.map(field => normalizeText(displayValue(row as Record<string, unknown>, field))));
+
+  // Union-find over row positions; each root remembers its weakest matching pair
+  const parent = rows.map((_, index) => index);
+  const weakest = rows.map(() => 1);
+  const find = (index: number): number => parent[index] === index ? index : (parent[index] = find(parent[index]));
+
+  for (let a = 0; a < rows.length; a++) {
+    for (let b = a + 1; b < rows.length; b++) {
+      // The length difference bounds the similarity, which skips most pairs before any edit distance
+      const bound = fields.reduce((sum, _, i) => {
+        const longest = Math.max(values[a][i].length, values[b][i].length);
+        return sum + (longest === 0 ? 1 : 1 - Math.abs(values[a][i].length - values[b][i].length) / longest);
+      }, 0) / fields.length;
+      if (bound < threshold) continue;
+
+      const score = fields.reduce((sum, _, i) => sum + similarity(values[a][i], values[b][i]), 0) / fields.length;
+      if (score < threshold || values[a].every(value => value === '')) continue;
+
+      const rootA = find(a);
+      const rootB = find(b);
+      const linkScore = Math.min(score, weakest[rootA], weakest[rootB]);
+      if (rootA !== rootB) parent[rootB] = rootA;
+      weakest[rootA] = linkScore;
+    }
+  }
+
+  const groups = new Map<number, number[]>();
+  rows.forEach((_, index) => {
+    const root = find(index);
+    groups.set(root, [...(groups.get(root) || []), index + 1]);
+  });
+  return Array.from(groups.entries())
+    .filter(([, rowIndexes]) => rowIndexes.length > 1)
+    .map(([root, rowIndexes]) => ({
+      key: values[rowIndexes[0] - 1].filter(Boolean).join(' / '),
+      rowIndexes,
+      score: weakest[root],
+    }));
+};
+
+export const findDuplicates = (rows: unknown[], options: DuplicateOptions): DuplicateGroup[] => {
+  if (options.mode === 'exact') return findExact(rows, options.primaryKey);
+  const fields = options.fields || getDuplicateFields(rows, options.primaryKey);
+  return findFuzzy(rows, fields, options.threshold ?? DEFAULT_DUPLICATE_THRESHOLD);
+};
+
+// Fill the blank fields of one row from the other rows of its group, in group order
+const mergeInto = (target: Record<string, unknown>, others: Record<string, unknown>[]) => {
+  const merged: Record<string, unknown> = { ...target };
+  const raw: Record<string, unknown> = { ...(target[RAW_VALUES_KEY] as Record<string, unknown> | undefined) };
+
+  getFields([target, ...others]).forEach((field) => {
+    if (!isBlank(merged[field])) return;
+    const source = others.find(other => !isBlank(other[field]));
+    if (!source) return;
+    merged[field] = source[field];
+    const sourceRaw = source[RAW_VALUES_KEY] as Record<string, unknown> | undefined;
+    if (sourceRaw && field in sourceRaw) raw[field] = sourceRaw[field];
+  });
+
+  if (Object.keys(raw).length > 0) merged[RAW_VALUES_KEY] = raw;
+  return merged;
+};
+
+// keep: drop the rest of the group; merge: fill blanks from the rest, then drop it; delete: drop only this row
+export const resolveDuplicateGroup = (
+  rows: unknown[],
+  group: DuplicateGroup,
+  resolution: DuplicateResolution,
+  rowIndex: number
+): unknown[] => {
+  if (resolution === 'delete') return rows.filter((_, index) => index + 1 !== rowIndex);
+
+  const others = group.rowIndexes.filter(index => index !== rowIndex);
+  const result = rows.filter((_, index) => !others.includes(index + 1));
+  if (resolution === 'keep') return result;
+
+  const target = rows[rowIndex - 1] as Record<string, unknown>;
+  const merged = mergeInto(target, others.map(index => rows[index - 1] as Record<string, unknown>));
+  return result.map(row => row === target ? merged : row);
+};
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { RAW_VALUES_KEY } from '../utils';
+import { applyFixes, FixLogEntry, suggestFixes, undoFixes } from './fixes';
+import { getFieldKinds } from './index';
+
+const kinds = getFieldKinds('clients');
+
+const suggest = (rows: unknown[]) => suggestFixes('clients', rows, kinds, 'ClientID');
+
+const logEntry = (rows: unknown[]): FixLogEntry => ({
+  id: '1',
+  appliedAt: '2024-01-01T00:00:00.000Z',
+  entity: 'clients',
+  fixes: suggest(rows),
+});
+
+describe('suggestFixes', () => {
+  it('suggests one fix per cell, keyed by the row', () => {
+    const fixes = suggest([
+      { ClientID: 'C1', ClientName: '  Acme ', PriorityLevel: 9 },
+      { ClientID: 'C2', ClientName: 'Globex', PriorityLevel: 3 },
+    ]);
+    expect(fixes.map(fix => [fix.kind, fix.rowKey, fix.field, fix.after])).toEqual([
+      ['trim_whitespace', 'C1', 'ClientName', 'Acme'],
+      ['clamp_priority', 'C1', 'PriorityLevel', 5],
+    ]);
+  });
+
+  it('only converts unambiguous dates and phones with a country code', () => {
+    const fixes = suggest([
+      { ClientID: 'C1', StartDate: '25/03/2024', Phone: '+44 20 7946 0958' },
+      { ClientID: 'C2', StartDate: '03/04/2024', Phone: '020 7946 0958' },
+      { ClientID: 'C3', StartDate: '5 March 2024', Phone: '0044 20 7946 0958' },
+    ]);
+    expect(fixes.map(fix => [fix.rowKey, fix.kind, fix.after])).toEqual([
+      ['C1', 'iso_date', '2024-03-25'],
+      ['C1', 'phone_e164', '+442079460958'],
+      ['C3', 'iso_date', '2024-03-05'],
+      ['C3', 'phone_e164', '+442079460958'],
+    ]);
+  });
+
+  it('drops repeated list entries and writes the list back as text', () => {
+    const [fix] = suggest([{ ClientID: 'C1', RequestedTaskIDs: ['T1', 't1', 'T2'] }]);
+    expect(fix.kind).toBe('dedupe_list');
+    expect(fix.after).toBe('T1,T2');
+  });
+});
+
+describe('applyFixes and undoFixes', () => {
+  const rows = [
+    { ClientID: 'C1', ClientName: ' Acme', PriorityLevel: 3, [RAW_VALUES_KEY]: { ClientName: ' Acme' } },
+    { ClientID: 'C2', ClientName: 'Globex', PriorityLevel: 0 },
+  ];
+
+  it('writes fixes and restores the original values and raw text', () => {
+    const entry = logEntry(rows);
+    const fixed = applyFixes(rows, entry.fixes);
+    expect(fixed[0]).toEqual({ ClientID: 'C1', ClientName: 'Acme', PriorityLevel: 3 });
+    expect(fixed[1]).toEqual({ ClientID: 'C2', ClientName: 'Globex', PriorityLevel: 1 });
+
+    const undone = undoFixes(fixed, entry, 'ClientID');
+    expect(undone).toEqual({ rows, skipped: 0 });
+  });
+
+  it('finds rows by primary key after they move', () => {
+    const entry = logEntry(rows);
+    const fixed = applyFixes(rows, entry.fixes);
+    const moved = [{ ClientID: 'C0', ClientName: 'Acme', PriorityLevel: 1 }, fixed[1], fixed[0]];
+
+    const undone = undoFixes(moved, entry, 'ClientID');
+    expect(undone.skipped).toBe(0);
+    expect(undone.rows).toEqual([moved[0], rows[1], rows[0]]);
+  });
+
+  it('skips cells edited since and rows that are gone or share a key', () => {
+    const entry = logEntry(rows);
+    const fixed = applyFixes(rows, entry.fixes) as Record<string, unknown>[];
+
+    const edited = undoFixes([{ ...fixed[0], ClientName: 'Acme Ltd' }, fixed[1]], entry, 'ClientID');
+    expect(edited.skipped).toBe(1);
+    expect(edited.rows).toEqual([{ ClientID: 'C1', ClientName: 'Acme Ltd', PriorityLevel: 3 }, rows[1]]);
+
+    const deleted = undoFixes([fixed[0]], entry, 'ClientID');
+    expect(deleted).toEqual({ rows: [rows[0]], skipped: 1 });
+
+    const shared = [fixed[0], fixed[1], { ClientID: 'C2', ClientName: 'Initech', PriorityLevel: 1 }];
+    expect(undoFixes(shared, entry, 'ClientID')).toEqual({ rows: [rows[0], shared[1], shared[2]], skipped: 1 });
+  });
+});
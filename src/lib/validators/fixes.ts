@@ -0,0 +1,248 @@
+import { FieldKind } from '../parsers/coercion';
+import { EntityType, getFields, RAW_VALUES_KEY } from '../utils';
+
+export type FixKind = 'trim_whitespace' | 'phone_e164' | 'iso_date' | 'clamp_priority' | 'dedupe_list';
+
+export interface SuggestedFix {
+  id: string;
+  kind: FixKind;
+  entity: EntityType;
+  // 1-based, like ValidationError.rowIndex
+  rowIndex: number;
+  // The row's primary key, which finds it again on undo after rows are deleted, merged or re-uploaded
+  rowKey: string;
+  field: string;
+  before: unknown;
+  // Original text of a coerced cell, restored on undo
+  beforeRaw?: unknown;
+  after: unknown;
+  description: string;
+}
+
+// A batch of accepted fixes, kept so it can be undone
+export interface FixLogEntry {
+  id: string;
+  appliedAt: string;
+  entity: EntityType;
+  fixes: SuggestedFix[];
+}
+
+export const FIX_LABELS: Record<FixKind, string> = {
+  trim_whitespace: 'Trim whitespace',
+  phone_e164: 'Normalize phone to E.164',
+  iso_date: 'Convert date to ISO',
+  clamp_priority: 'Clamp PriorityLevel to 1–5',
+  dedupe_list: 'Remove duplicate list entries',
+};
+
+const PRIORITY_MIN = 1;
+const PRIORITY_MAX = 5;
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const toIsoDate = (year: number, month: number, day: number): string | null => {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return `${year}-${pad(month)}-${pad(day)}`;
+};
+
+const expandYear = (year: number) => year < 100 ? 2000 + year : year;
+
+// Day-first or month-first numeric dates are only converted when the order is unambiguous
+const parseDate = (text: string): string | null => {
+  if (/^\d{4}-\d{2}-\d{2}(T[\d:.]+(Z|[+-]\d{2}:?\d{2})?)?$/.test(text)) return null;
+
+  let match = text.match(/^(\d{4})[/.](\d{1,2})[/.](\d{1,2})$/);
+  if (match) return toIsoDate(Number(match[1]), Number(match[2]), Number(match[3]));
+
+  match = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/);
+  if (match) {
+    const first = Number(match[1]);
+    const second = Number(match[2]);
+    const year = expandYear(Number(match[3]));
+    if (first > 12 && second <= 12) return toIsoDate(year, second, first);
+    if (second > 12 && first <= 12) return toIsoDate(year, first, second);
+    if (first === second) return toIsoDate(year, first, second);
+    return null;
+  }
+
+  // "5 March 2024", "March 5, 2024", "5-Mar-24"
+  match = text.match(/^(\d{1,2})[\s-]+([a-z]{3,})\.?[\s-]+(\d{2}|\d{4})$/i)
+    || text.match(/^([a-z]{3,})\.?\s+(\d{1,2}),?\s+(\d{4})$/i);
+  if (match) {
+    const dayFirst = /^\d/.test(match[1]);
+    const month = MONTHS.indexOf((dayFirst ? match[2] : match[1]).slice(0, 3).toLowerCase()) + 1;
+    const day = Number(dayFirst ? match[1] : match[2]);
+    if (month === 0) return null;
+    return toIsoDate(expandYear(Number(match[3])), month, day);
+  }
+
+  // Spreadsheet serial day numbers that lost their date format
+  if (/^\d{5}$/.test(text)) {
+    const date = new Date(Date.UTC(1899, 11, 30) + Number(text) * 86400000);
+    return toIsoDate(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate());
+  }
+  return null;
+};
+
+// Only numbers that already carry a country code are converted; national numbers are ambiguous
+const toE164 = (text: string): string | null => {
+  const cleaned = text.replace(/[\s().-]/g, '');
+  let digits: string;
+  if (cleaned.startsWith('+')) digits = cleaned.slice(1);
+  else if (cleaned.startsWith('00')) digits = cleaned.slice(2);
+  else if (/^\d{11,15}$/.test(cleaned)) digits = cleaned;
+  else return null;
+  if (!/^[1-9]\d{6,14}$/.test(digits)) return null;
+  const normalized = `+${digits}`;
+  return normalized === text ? null : normalized;
+};
+
+const dedupeList = (value: unknown, kind: FieldKind): string | null => {
+  if (!Array.isArray(value)) return null;
+  const seen = new Set<string>();
+  const unique = value.filter((item) => {
+    const key = String(item).trim().toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+  if (unique.length === value.length) return null;
+  // Written back as text, the same as a grid edit, so the raw and typed values never disagree
+  return kind === 'list' ? unique.join(',') : JSON.stringify(unique);
+};
+
+// The most specific fix for one cell; at most one per cell so fixes never overlap
+const suggestCellFix = (field: string, value: unknown, kind: FieldKind | undefined): { kind: FixKind; after: unknown } | null => {
+  if (value === undefined || value === null || value === '') return null;
+
+  if (kind === 'list' || kind === 'numberList' || kind === 'phaseList') {
+    const after = dedupeList(value, kind);
+    if (after !== null) return { kind: 'dedupe_list', after };
+  }
+
+  if (field === 'PriorityLevel') {
+    const number = typeof value === 'number' ? value : Number(String(value).trim());
+    if (!Number.isNaN(number) && (number < PRIORITY_MIN || number > PRIORITY_MAX)) {
+      return { kind: 'clamp_priority', after: Math.min(PRIORITY_MAX, Math.max(PRIORITY_MIN, Math.round(number))) };
+    }
+  }
+
+  if (typeof value !== 'string') return null;
+  const trimmed = value.trim();
+
+  if (/phone|mobile/i.test(field)) {
+    const after = toE164(trimmed);
+    if (after) return { kind: 'phone_e164', after };
+  }
+  if (/date/i.test(field)) {
+    const after = parseDate(trimmed);
+    if (after) return { kind: 'iso_date', after };
+  }
+  if (trimmed !== value) return { kind: 'trim_whitespace', after: trimmed };
+  return null;
+};
+
+const describeFix = (kind: FixKind, field: string, after: unknown) => {
+  switch (kind) {
+    case 'trim_whitespace': return `Remove leading and trailing spaces from ${field}`;
+    case 'phone_e164': return `Rewrite ${field} as ${after}`;
+    case 'iso_date': return `Rewrite ${field} as ${after}`;
+    case 'clamp_priority': return `Set ${field} to ${after}, the nearest allowed value`;
+    default: return `Drop repeated entries from ${field}`;
+  }
+};
+
+const getRowKey = (row: unknown, primaryKey: string) => String((row as Record<string, unknown>)[primaryKey] ?? '').trim();
+
+// Scan a dataset for cells with a mechanical fix. Kinds and the primary key come from the schema registry.
+export const suggestFixes = (
+  entity: EntityType,
+  rows: unknown[],
+  kinds: Record<string, FieldKind>,
+  primaryKey: string
+): SuggestedFix[] => {
+  const fields = getFields(rows);
+  const fixes: SuggestedFix[] = [];
+  rows.forEach((row, index) => {
+    const record = row as Record<string, unknown>;
+    fields.forEach((field) => {
+      const fix = suggestCellFix(field, record[field], kinds[field]);
+      if (!fix) return;
+      const raw = record[RAW_VALUES_KEY] as Record<string, unknown> | undefined;
+      fixes.push({
+        id: `${entity}:${index + 1}:${field}`,
+        kind: fix.kind,
+        entity,
+        rowIndex: index + 1,
+        rowKey: getRowKey(record, primaryKey),
+        field,
+        before: record[field],
+        beforeRaw: raw?.[field],
+        after: fix.after,
+        description: describeFix(fix.kind, field, fix.after),
+      });
+    });
+  });
+  return fixes;
+};
+
+interface CellChange {
+  rowIndex: number;
+  field: string;
+  value: unknown;
+  raw?: unknown;
+}
+
+// Replace a value along with its raw text: fixed cells are plain text, undone cells get their original text back
+const writeCell = (row: Record<string, unknown>, { field, value, raw }: CellChange) => {
+  const updated: Record<string, unknown> = { ...row, [field]: value };
+  const rawValues: Record<string, unknown> = { ...(row[RAW_VALUES_KEY] as Record<string, unknown> | undefined) };
+  delete rawValues[field];
+  if (raw !== undefined) rawValues[field] = raw;
+
+  if (Object.keys(rawValues).length > 0) updated[RAW_VALUES_KEY] = rawValues;
+  else delete updated[RAW_VALUES_KEY];
+  return updated;
+};
+
+// Write values into the rows they belong to; rows without a change keep their identity
+const writeValues = (rows: unknown[], changes: CellChange[]): unknown[] => {
+  const byRow = new Map<number, CellChange[]>();
+  changes.forEach((change) => {
+    byRow.set(change.rowIndex, [...(byRow.get(change.rowIndex) || []), change]);
+  });
+  return rows.map((row, index) => {
+    const rowChanges = byRow.get(index + 1);
+    if (!rowChanges) return row;
+    return rowChanges.reduce(writeCell, row as Record<string, unknown>);
+  });
+};
+
+export const applyFixes = (rows: unknown[], fixes: SuggestedFix[]): unknown[] => {
+  return writeValues(rows, fixes.map(fix => ({ rowIndex: fix.rowIndex, field: fix.field, value: fix.after })));
+};
+
+// Restore the values a batch replaced. Rows are found by primary key, not position; cells edited again since,
+// and rows whose key is now missing or shared, are left alone and counted as skipped.
+export const undoFixes = (rows: unknown[], entry: FixLogEntry, primaryKey: string): { rows: unknown[]; skipped: number } => {
+  const positions = new Map<string, number[]>();
+  rows.forEach((row, index) => {
+    const key = getRowKey(row, primaryKey);
+    if (key) positions.set(key, [...(positions.get(key) || []), index + 1]);
+  });
+
+  const restorable = entry.fixes.flatMap((fix): CellChange[] => {
+    const matches = positions.get(fix.rowKey) || [];
+    if (matches.length !== 1) return [];
+    const rowIndex = matches[0];
+    if ((rows[rowIndex - 1] as Record<string, unknown>)[fix.field] !== fix.after) return [];
+    return [{ rowIndex, field: fix.field, value: fix.before, raw: fix.beforeRaw }];
+  });
+  return {
+    rows: writeValues(rows, restorable),
+    skipped: entry.fixes.length - restorable.length,
+  };
+};
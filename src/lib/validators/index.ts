@@ -0,0 +1,256 @@
+import { z } from 'zod';
+import { coerceValue, FieldKind } from '../parsers/coercion';
+import { EntityType, getFields } from '../utils';
+import { ValidationCheck, ValidationSeverity } from './profiles';
+
+export * from './references';
+export * from './capacity';
+export * from './duplicates';
+export * from './profiles';
+export * from './fixes';
+
+export interface ValidationError {
+  field: string;
+  message: string;
+  value: unknown;
+  // 1-based row number; 0 for problems with the dataset as a whole (e.g. a missing column)
+  rowIndex: number;
+  check: ValidationCheck;
+  // 'error' until a validation profile is applied
+  severity: ValidationSeverity;
+}
+
+export interface FieldDefinition {
+  name: string;
+  kind: FieldKind;
+  required: boolean;
+  // Short human-readable format, shown next to inputs
+  description: string;
+  schema: z.ZodTypeAny;
+}
+
+export interface EntitySchema {
+  entity: EntityType;
+  primaryKey: string;
+  fields: FieldDefinition[];
+}
+
+// Rule applied to columns the registry does not declare, matched on the column name
+export interface CommonFieldRule {
+  pattern: RegExp;
+  description: string;
+  schema: z.ZodTypeAny;
+}
+
+// Accept both coerced values and the raw text a grid edit or data modifier leaves behind
+const typed = (kind: FieldKind, schema: z.ZodTypeAny) => z.preprocess((value) => {
+  if (value === '' || value === null || value === undefined) return undefined;
+  const result = coerceValue(value, kind);
+  return result.ok ? result.value : value;
+}, schema);
+
+const requiredMessage = (label: string) => `${label} is required`;
+const text = (label: string) => z.string({ required_error: requiredMessage(label), invalid_type_error: `${label} must be text` })
+  .trim()
+  .min(1, requiredMessage(label));
+const integer = (label: string) => z.number({ required_error: requiredMessage(label), invalid_type_error: `${label} must be a number` })
+  .int(`${label} must be a whole number`);
+const idList = (label: string) => z.array(z.string().min(1), {
+  required_error: requiredMessage(label),
+  invalid_type_error: `${label} must be a comma-separated list`,
+});
+const phaseList = (label: string) => z.array(z.number().int().min(1, `${label} must only contain phases from 1`), {
+  required_error: requiredMessage(label),
+  invalid_type_error: `${label} must be a list like [1,3,5] or a range like 1-3`,
+});
+
+const field = (
+  name: string,
+  kind: FieldKind,
+  required: boolean,
+  description: string,
+  schema: z.ZodTypeAny
+): FieldDefinition => ({
+  name,
+  kind,
+  required,
+  description,
+  schema: typed(kind, required ? schema : schema.optional()),
+});
+
+const registry: Record<EntityType, EntitySchema> = {
+  clients: {
+    entity: 'clients',
+    primaryKey: 'ClientID',
+    fields: [
+      field('ClientID', 'string', true, 'Unique ID, e.g. C1', text('ClientID')),
+      field('ClientName', 'string', true, 'Text', text('ClientName')),
+      field('PriorityLevel', 'integer', true, 'Whole number 1–5', integer('PriorityLevel').min(1, 'PriorityLevel must be between 1 and 5').max(5, 'PriorityLevel must be between 1 and 5')),
+      field('RequestedTaskIDs', 'list', false, 'Comma-separated task IDs, e.g. T1,T2', idList('RequestedTaskIDs')),
+      field('GroupTag', 'string', false, 'Text', z.string()),
+      field('AttributesJSON', 'json', false, 'JSON object', z.record(z.unknown(), { invalid_type_error: 'AttributesJSON must be a JSON object' })),
+    ],
+  },
+  workers: {
+    entity: 'workers',
+    primaryKey: 'WorkerID',
+    fields: [
+      field('WorkerID', 'string', true, 'Unique ID, e.g. W1', text('WorkerID')),
+      field('WorkerName', 'string', true, 'Text', text('WorkerName')),
+      field('Skills', 'list', true, 'Comma-separated skills', idList('Skills').min(1, 'Skills must list at least one skill')),
+      field('AvailableSlots', 'numberList', true, 'Phase list, e.g. [1,3,5]', phaseList('AvailableSlots')),
+      field('MaxLoadPerPhase', 'integer', true, 'Whole number ≥ 1', integer('MaxLoadPerPhase').min(1, 'MaxLoadPerPhase must be at least 1')),
+      field('WorkerGroup', 'string', false, 'Text', z.string()),
+      field('QualificationLevel', 'number', false, 'Number ≥ 0', z.number({ invalid_type_error: 'QualificationLevel must be a number' }).min(0, 'QualificationLevel cannot be negative')),
+    ],
+  },
+  tasks: {
+    entity: 'tasks',
+    primaryKey: 'TaskID',
+    fields: [
+      field('TaskID', 'string', true, 'Unique ID, e.g. T1', text('TaskID')),
+      field('TaskName', 'string', true, 'Text', text('TaskName')),
+      field('Category', 'string', false, 'Text', z.string()),
+      field('Duration', 'integer', true, 'Number of phases ≥ 1', integer('Duration').min(1, 'Duration must be at least 1 phase')),
+      field('RequiredSkills', 'list', true, 'Comma-separated skills', idList('RequiredSkills').min(1, 'RequiredSkills must list at least one skill')),
+      field('PreferredPhases', 'phaseList', false, 'Range like 1-3 or list like [2,4]', phaseList('PreferredPhases')),
+      field('MaxConcurrent', 'integer', true, 'Whole number ≥ 1', integer('MaxConcurrent').min(1, 'MaxConcurrent must be at least 1')),
+    ],
+  },
+};
+
+const commonFieldRules: CommonFieldRule[] = [
+  { pattern: /email/i, description: 'Email address', schema: z.string().email('Invalid email format') },
+  { pattern: /phone|mobile/i, description: 'Phone number', schema: z.string().regex(/^[\+]?[1-9][\d]{0,15}$/, 'Invalid phone number') },
+  { pattern: /date/i, description: 'Date', schema: z.string().refine((val) => !isNaN(Date.parse(val)), 'Invalid date format') },
+];
+
+export const getEntitySchema = (entity: EntityType): EntitySchema => registry[entity];
+
+export const getFieldDefinition = (entity: EntityType, name: string): FieldDefinition | undefined => {
+  return registry[entity].fields.find(definition => definition.name === name);
+};
+
+export const getEntityFieldNames = (entity: EntityType): string[] => registry[entity].fields.map(definition => definition.name);
+
+export const getFieldKinds = (entity: EntityType): Record<string, FieldKind> => {
+  return Object.fromEntries(registry[entity].fields.map(definition => [definition.name, definition.kind]));
+};
+
+// Add or replace a field definition, e.g. for a project-specific column.
+// Pass the bare schema; blank handling and coercion are added here.
+export const registerField = (entity: EntityType, definition: FieldDefinition) => {
+  const registered = field(definition.name, definition.kind, definition.required, definition.description, definition.schema);
+  const fields = registry[entity].fields.filter(existing => existing.name !== definition.name);
+  registry[entity] = { ...registry[entity], fields: [...fields, registered] };
+};
+
+export const registerCommonFieldRule = (rule: CommonFieldRule) => {
+  commonFieldRules.push(rule);
+};
+
+// Schema for a column: the registry entry, else the first common rule matching its name
+export const getColumnSchema = (entity: EntityType, column: string): z.ZodTypeAny | null => {
+  const definition = getFieldDefinition(entity, column);
+  if (definition) return definition.schema;
+  const rule = commonFieldRules.find(common => common.pattern.test(column));
+  if (!rule) return null;
+  return z.preprocess(value => value === '' ? undefined : value, rule.schema.optional());
+};
+
+// Object schema covering the given columns; columns without any rule are not checked
+export const buildRowSchema = (entity: EntityType, columns: string[]) => {
+  const shape: Record<string, z.ZodTypeAny> = {};
+  columns.forEach((column) => {
+    const schema = getColumnSchema(entity, column);
+    if (schema) shape[column] = schema;
+  });
+  return z.object(shape);
+};
+
+const isBlank = (value: unknown) => value === undefined || value === null || (typeof value === 'string' && value.trim() === '');
+
+const classifyIssue = (issue: z.ZodIssue, value: unknown): ValidationCheck => {
+  if (isBlank(value)) return 'required';
+  switch (issue.code) {
+    case 'invalid_type': return 'type';
+    case 'too_small':
+    case 'too_big': return 'range';
+    default: return 'format';
+  }
+};
+
+export const validateRow = (entity: EntityType, row: Record<string, unknown>, rowIndex: number, schema = buildRowSchema(entity, getFields([row]))): ValidationError[] => {
+  const result = schema.safeParse(row);
+  if (result.success) return [];
+  return result.error.issues.map((issue) => ({
+    field: String(issue.path[0]),
+    message: issue.message,
+    value: row[issue.path[0] as string],
+    rowIndex,
+    check: classifyIssue(issue, row[issue.path[0] as string]),
+    severity: 'error' as const,
+  }));
+};
+
+// Errors per row object, so rows that did not change are not re-checked.
+// Edits replace row objects rather than mutating them, which is what makes this safe.
+export interface ValidationCache {
+  entity: EntityType;
+  columns: string;
+  rows: WeakMap<object, ValidationError[]>;
+}
+
+export interface IncrementalValidation {
+  errors: ValidationError[];
+  cache: ValidationCache;
+  // Rows actually re-checked in this pass
+  checkedRows: number;
+}
+
+const missingColumnErrors = (entity: EntityType, columns: string[]): ValidationError[] => {
+  return registry[entity].fields
+    .filter(definition => definition.required && !columns.includes(definition.name))
+    .map(definition => ({
+      field: definition.name,
+      message: `Missing required column ${definition.name}`,
+      value: undefined,
+      rowIndex: 0,
+      check: 'missing_column' as const,
+      severity: 'error' as const,
+    }));
+};
+
+// Validate a dataset against the registry, reusing cached results for unchanged rows.
+// A different set of columns changes the row schema, so the cache starts over.
+export const validateRowsIncremental = (entity: EntityType, rows: unknown[], cache?: ValidationCache | null): IncrementalValidation => {
+  const columns = getFields(rows);
+  const signature = columns.join('\u0000');
+  const current = cache && cache.entity === entity && cache.columns === signature
+    ? cache
+    : { entity, columns: signature, rows: new WeakMap<object, ValidationError[]>() };
+
+  // Columns that are entirely absent are reported once, not per row
+  const errors = missingColumnErrors(entity, columns);
+  let schema: ReturnType<typeof buildRowSchema> | null = null;
+  let checkedRows = 0;
+
+  rows.forEach((row, index) => {
+    const record = row as Record<string, unknown>;
+    let rowErrors = current.rows.get(record);
+    if (!rowErrors) {
+      schema = schema || buildRowSchema(entity, columns);
+      rowErrors = validateRow(entity, record, 0, schema);
+      current.rows.set(record, rowErrors);
+      checkedRows++;
+    }
+    rowErrors.forEach(error => errors.push({ ...error, rowIndex: index + 1 }));
+  });
+
+  return { errors, cache: current, checkedRows };
+};
+
+// Validate a whole dataset against the registry: missing required columns, then every row
+export const validateRows = (entity: EntityType, rows: unknown[]): ValidationError[] => {
+  return validateRowsIncremental(entity, rows).errors;
+};
@@ -0,0 +1,113 @@
+import type { CapacityCheck } from './capacity';
+import type { ReferenceCheck } from './references';
+
+export type ValidationSeverity = 'error' | 'warning' | 'info';
+
+// Every kind of problem the validators report; profiles set a severity per check
+export type ValidationCheck =
+  | 'missing_column'
+  | 'required'
+  | 'type'
+  | 'range'
+  | 'format'
+  | ReferenceCheck
+  | CapacityCheck;
+
+export interface ValidationProfile {
+  id: string;
+  name: string;
+  description: string;
+  severities: Record<ValidationCheck, ValidationSeverity>;
+  blockExportOnErrors: boolean;
+}
+
+export const VALIDATION_CHECKS: { check: ValidationCheck; label: string }[] = [
+  { check: 'missing_column', label: 'Missing required column' },
+  { check: 'required', label: 'Blank required value' },
+  { check: 'type', label: 'Wrong value type' },
+  { check: 'range', label: 'Value out of range' },
+  { check: 'format', label: 'Bad format (email, phone, date)' },
+  { check: 'unknown_task', label: 'Requested task does not exist' },
+  { check: 'unmatched_skill', label: 'Required skill no worker has' },
+  { check: 'unstaffed_phase', label: 'Preferred phase with no available worker' },
+  { check: 'phase_overload', label: 'Phase demand exceeds worker capacity' },
+  { check: 'worker_overcommitted', label: 'MaxLoadPerPhase above available slots' },
+];
+
+export const VALIDATION_PROFILES: ValidationProfile[] = [
+  {
+    id: 'strict_import',
+    name: 'Strict import',
+    description: 'Everything must be fixed before the data can be exported.',
+    severities: {
+      missing_column: 'error',
+      required: 'error',
+      type: 'error',
+      range: 'error',
+      format: 'error',
+      unknown_task: 'error',
+      unmatched_skill: 'error',
+      unstaffed_phase: 'warning',
+      phase_overload: 'error',
+      worker_overcommitted: 'warning',
+    },
+    blockExportOnErrors: true,
+  },
+  {
+    id: 'lenient_draft',
+    name: 'Lenient draft',
+    description: 'For work in progress: only broken structure counts as an error and export is never blocked.',
+    severities: {
+      missing_column: 'error',
+      required: 'warning',
+      type: 'error',
+      range: 'warning',
+      format: 'info',
+      unknown_task: 'warning',
+      unmatched_skill: 'warning',
+      unstaffed_phase: 'info',
+      phase_overload: 'warning',
+      worker_overcommitted: 'info',
+    },
+    blockExportOnErrors: false,
+  },
+];
+
+export const DEFAULT_PROFILE_ID = 'strict_import';
+
+const STORAGE_KEY = 'digitalz.validationProfile';
+
+export const getValidationProfile = (id: string): ValidationProfile => {
+  return VALIDATION_PROFILES.find(profile => profile.id === id) || VALIDATION_PROFILES[0];
+};
+
+// The active profile is part of the session and survives a reload
+export const loadActiveProfileId = (): string => {
+  if (typeof window === 'undefined') return DEFAULT_PROFILE_ID;
+  const saved = window.localStorage.getItem(STORAGE_KEY);
+  return saved && VALIDATION_PROFILES.some(profile => profile.id === saved) ? saved : DEFAULT_PROFILE_ID;
+};
+
+export const saveActiveProfileId = (id: string) => {
+  if (typeof window === 'undefined') return;
+  window.localStorage.setItem(STORAGE_KEY, id);
+};
+
+export const applyProfile = <T extends { check: ValidationCheck; severity: ValidationSeverity }>(
+  issues: T[],
+  profile: ValidationProfile
+): T[] => {
+  return issues.map(issue => ({ ...issue, severity: profile.severities[issue.check] }));
+};
+
+export const countBySeverity = (issues: { severity: ValidationSeverity }[]): Record<ValidationSeverity, number> => {
+  const counts: Record<ValidationSeverity, number> = { error: 0, warning: 0, info: 0 };
+  issues.forEach((issue) => {
+    counts[issue.severity]++;
+  });
+  return counts;
+};
+
+export const isExportBlocked = (profile: ValidationProfile, issues: { severity: ValidationSeverity }[]) => {
+  return profile.blockExportOnErrors && issues.some(issue => issue.severity === 'error');
+};
@@ -0,0 +1,122 @@
+import { coerceValue, FieldKind } from '../parsers/coercion';
+import { EntityType, ENTITY_LABELS } from '../utils';
+import type { ValidationSeverity } from './profiles';
+
+export type EntityDatasets = Record<EntityType, unknown[] | null>;
+
+export type ReferenceCheck = 'unknown_task' | 'unmatched_skill' | 'unstaffed_phase';
+
+// A row in one of the datasets, 1-based like ValidationError.rowIndex
+export interface RowReference {
+  entity: EntityType;
+  rowIndex: number;
+  // Column to focus, when the problem is in a single cell
+  field?: string;
+}
+
+export interface ReferenceIssue extends RowReference {
+  check: ReferenceCheck;
+  // 'error' until a validation profile is applied
+  severity: ValidationSeverity;
+  field: string;
+  value: unknown;
+  message: string;
+  // Rows in other datasets that explain the problem, e.g. workers free in a phase but lacking the skill
+  related: RowReference[];
+}
+
+// Values may be coerced lists or the raw text a grid edit leaves behind
+export const readList = (row: Record<string, unknown>, field: string, kind: FieldKind): unknown[] => {
+  const value = row[field];
+  if (value === undefined || value === null || value === '') return [];
+  const result = coerceValue(value, kind);
+  return result.ok && Array.isArray(result.value) ? result.value : [];
+};
+
+export const readId = (row: Record<string, unknown>, field: string) => String(row[field] ?? '').trim();
+
+export const describeReference = (reference: RowReference) => `${ENTITY_LABELS[reference.entity]} row ${reference.rowIndex}`;
+
+const checkRequestedTasks = (clients: unknown[], tasks: unknown[], issues: ReferenceIssue[]) => {
+  const taskIds = new Set(tasks.map(task => readId(task as Record<string, unknown>, 'TaskID')).filter(Boolean));
+
+  clients.forEach((client, index) => {
+    const row = client as Record<string, unknown>;
+    readList(row, 'RequestedTaskIDs', 'list').map(String).forEach((taskId) => {
+      if (taskIds.has(taskId)) return;
+      issues.push({
+        check: 'unknown_task',
+        severity: 'error',
+        entity: 'clients',
+        rowIndex: index + 1,
+        field: 'RequestedTaskIDs',
+        value: taskId,
+        message: `Client ${readId(row, 'ClientID') || `row ${index + 1}`} requests task ${taskId}, which does not exist`,
+        related: [],
+      });
+    });
+  });
+};
+
+const checkSkillsAndPhases = (tasks: unknown[], workers: unknown[], issues: ReferenceIssue[]) => {
+  const staff = workers.map((worker, index) => {
+    const row = worker as Record<string, unknown>;
+    return {
+      reference: { entity: 'workers' as const, rowIndex: index + 1 },
+      skills: new Set(readList(row, 'Skills', 'list').map(skill => String(skill).toLowerCase())),
+      slots: new Set(readList(row, 'AvailableSlots', 'numberList').map(Number)),
+    };
+  });
+  const allSkills = new Set(staff.flatMap(worker => Array.from(worker.skills)));
+
+  tasks.forEach((task, index) => {
+    const row = task as Record<string, unknown>;
+    const label = `Task ${readId(row, 'TaskID') || `row ${index + 1}`}`;
+    const required = readList(row, 'RequiredSkills', 'list').map(String);
+
+    required.forEach((skill) => {
+      if (allSkills.has(skill.toLowerCase())) return;
+      issues.push({
+        check: 'unmatched_skill',
+        severity: 'error',
+        entity: 'tasks',
+        rowIndex: index + 1,
+        field: 'RequiredSkills',
+        value: skill,
+        message: `${label} requires skill "${skill}", which no worker has`,
+        related: [],
+      });
+    });
+
+    // Skills nobody has are already reported above; don't repeat them for every phase
+    const staffable = required.filter(skill => allSkills.has(skill.toLowerCase()));
+    readList(row, 'PreferredPhases', 'phaseList').map(Number).forEach((phase) => {
+      const available = staff.filter(worker => worker.slots.has(phase));
+      const qualified = available.filter(worker => staffable.every(skill => worker.skills.has(skill.toLowerCase())));
+      if (qualified.length > 0) return;
+      issues.push({
+        check: 'unstaffed_phase',
+        severity: 'error',
+        entity: 'tasks',
+        rowIndex: index + 1,
+        field: 'PreferredPhases',
+        value: phase,
+        message: available.length === 0
+          ? `${label} prefers phase ${phase}, but no worker has a slot in it`
+          : `${label} prefers phase ${phase}, but none of the ${available.length} worker(s) free then has all of ${staffable.join(', ')}`,
+        related: available.map(worker => worker.reference),
+      });
+    });
+  });
+};
+
+// Broken links between datasets. Checks that need a dataset which is not loaded are skipped.
+export const validateReferences = (datasets: EntityDatasets): ReferenceIssue[] => {
+  const issues: ReferenceIssue[] = [];
+  const { clients, workers, tasks } = datasets;
+
+  if (clients?.length && tasks) checkRequestedTasks(clients, tasks, issues);
+  if (tasks?.length && workers) checkSkillsAndPhases(tasks, workers, issues);
+
+  return issues;
+};